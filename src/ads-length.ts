@@ -0,0 +1,125 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Text length calculation compatible with Google Ads limits, where
+ * double-width characters (Chinese, Japanese, Korean, full-width forms)
+ * count as 2 (see https://support.google.com/google-ads/answer/1704389).
+ */
+
+// ranges of code points of double-width (East Asian Wide and Fullwidth) characters
+const WIDE_RANGES: [number, number][] = [
+  [0x1100, 0x115f], // Hangul Jamo
+  [0x2e80, 0x303e], // CJK Radicals, Kangxi Radicals, CJK Symbols and Punctuation
+  [0x3041, 0x33ff], // Hiragana, Katakana, Bopomofo, Hangul Compatibility Jamo, etc
+  [0x3400, 0x4dbf], // CJK Unified Ideographs Extension A
+  [0x4e00, 0x9fff], // CJK Unified Ideographs
+  [0xa000, 0xa4cf], // Yi
+  [0xa960, 0xa97f], // Hangul Jamo Extended-A
+  [0xac00, 0xd7a3], // Hangul Syllables
+  [0xf900, 0xfaff], // CJK Compatibility Ideographs
+  [0xfe10, 0xfe19], // Vertical Forms
+  [0xfe30, 0xfe6f], // CJK Compatibility Forms, Small Form Variants
+  [0xff00, 0xff60], // Fullwidth Forms
+  [0xffe0, 0xffe6], // Fullwidth Signs
+  [0x1f300, 0x1f64f], // Miscellaneous Symbols and Pictographs, Emoticons
+  [0x1f900, 0x1f9ff], // Supplemental Symbols and Pictographs
+  [0x20000, 0x3fffd], // CJK Unified Ideographs Extension B and later
+];
+
+// a fallback for runtimes without Intl.Segmenter: a base character followed by
+// combining marks, emoji modifiers, tags and zero-width-joined characters
+const GRAPHEME_RE =
+  /\p{Regional_Indicator}{2}|\P{M}(?:\p{M}|[\u{1F3FB}-\u{1F3FF}]|[\u{E0020}-\u{E007F}]|\u200D\P{M})*|\p{M}+/gu;
+
+function isWideCodePoint(code: number) {
+  for (const [start, end] of WIDE_RANGES) {
+    if (code < start) return false;
+    if (code <= end) return true;
+  }
+  return false;
+}
+
+/**
+ * Split a text into graphemes (user-perceived characters).
+ * @param {String} text
+ * @returns {String[]}
+ */
+export function splitGraphemes(text: string): string[] {
+  if (!text) return [];
+  const Segmenter = (<any>Intl).Segmenter;
+  if (Segmenter) {
+    const segmenter = new Segmenter(undefined, { granularity: 'grapheme' });
+    return Array.from(segmenter.segment(text), (s: any) => s.segment);
+  }
+  return text.match(GRAPHEME_RE) || [];
+}
+
+/**
+ * Calculate a width of a grapheme as Google Ads does (1 or 2).
+ * @param {String} grapheme
+ */
+function getGraphemeWidth(grapheme: string) {
+  const code = grapheme.codePointAt(0)!;
+  if (isWideCodePoint(code)) return 2;
+  // emoji presentation sequences and ZWJ sequences are rendered as wide emoji
+  if (grapheme.includes('\uFE0F') || grapheme.includes('\u200D')) return 2;
+  if (/\p{Regional_Indicator}/u.test(grapheme)) return 2;
+  return 1;
+}
+
+/**
+ * Calculate a length of a text as Google Ads does for checking limits.
+ * @param {String} text
+ * @returns {Number}
+ */
+export function getAdsTextLength(text: string): number {
+  let length = 0;
+  for (const grapheme of splitGraphemes(text)) {
+    length += getGraphemeWidth(grapheme);
+  }
+  return length;
+}
+
+/**
+ * Check that a text's length (as Google Ads calculates it) is within limits.
+ * @param {String} text
+ * @param {Number} min
+ * @param {Number} max
+ */
+export function isAdsLengthValid(text: string, min: number, max: number) {
+  const length = getAdsTextLength(text);
+  return length >= min && length <= max;
+}
+
+/**
+ * Convert a limit in Google Ads units into a number of characters to ask
+ * a model for: if a sample text (e.g. keywords) consists mostly of
+ * double-width characters then the limit is halved.
+ * @param {Number} limit - limit in Google Ads units
+ * @param [String] sample - a text in the language of the ads
+ * @returns {Number}
+ */
+export function getModelLengthLimit(limit: number, sample?: string) {
+  const graphemes = splitGraphemes(sample || '').filter(g => /\S/u.test(g));
+  if (!graphemes.length) return limit;
+  const wideCount = graphemes.filter(g => getGraphemeWidth(g) === 2).length;
+  if (wideCount * 2 > graphemes.length) {
+    return Math.floor(limit / 2);
+  }
+  return limit;
+}
@@ -23,6 +23,70 @@ import {
   ConfigSheetReader,
   IConfigReader,
 } from './config';
+import { IModelApi, ModelProvider, createModelApi } from './model-api';
+import { PinningRule, applyPinningRules, parsePinningRules } from './pinning';
+import { JsonSchema, parseJsonReply } from './schema';
+import {
+  getAdsTextLength,
+  getModelLengthLimit,
+  isAdsLengthValid,
+} from './ads-length';
+import { lintAdText, lintAdTexts, parseTrademarks } from './linter';
+import { findNearDuplicates, findSimilar } from './similarity';
+import { getHash } from './interop';
+import { getLandingPageContent } from './landing-page';
+import { renderTemplate } from './template';
+import { formatScore, scoreAssets, selectTopAssets } from './ranking';
+import { QUALITY_REPORT_COLUMNS, analyzeAdGroup } from './quality';
+import {
+  CustomizerAttribute,
+  CustomizerType,
+  CustomizerValue,
+  CustomizerValueMethod,
+  createCustomizerApiValue,
+  loadCustomizerAttributes,
+  validateCustomizerValue,
+} from './customizers';
+import { saveRecordedTraffic } from './llm-cache';
+import {
+  UsageTracker,
+  estimateCost,
+  getModelPrice,
+  parsePriceTable,
+  writeUsageSheet,
+} from './usage';
+import { estimateTokens, parseTokenBudgets, truncateToTokens } from './tokens';
+import {
+  ConfigOverride,
+  OverridesConfigReader,
+  loadConfigOverrides,
+  resolveConfigOverrides,
+} from './overrides';
+import {
+  GenerationRun,
+  clearGenerationRun,
+  createGenerationRun,
+  deleteContinuations,
+  formatGenerationRun,
+  loadGenerationRun,
+  saveGenerationRun,
+  scheduleContinuation,
+} from './generation-run';
+import {
+  BatchGeneration,
+  BatchJobState,
+  BatchPhase,
+  BatchRequest,
+  BatchResult,
+  IBatchEndpoint,
+  VertexBatchEndpoint,
+  clearBatchGeneration,
+  createBatchGeneration,
+  formatBatchGeneration,
+  loadBatchGeneration,
+  pollBatchJob,
+  saveBatchGeneration,
+} from './batch';
 import { GeminiVertexApi } from './vertex-api';
 
 export const app = null;
@@ -42,17 +106,8 @@ export function enter_dev_token() {
   documentProperties.setProperty(SETTINGS.ADS_DEV_TOKEN, dev_token);
 }
 
-export async function fetch_keywords() {
+function getAdsClient() {
   const mccId = ConfigReader.getValue(SETTINGS.MCC);
-  const seedCustomerId = ConfigReader.getValue(SETTINGS.CID) || mccId;
-  const campaignId = ConfigReader.getValue(SETTINGS.CAMPAIGN);
-  const maxKeywords = ConfigReader.getValue(SETTINGS.MAX_KEYWORDS) || 20;
-  if (!seedCustomerId) {
-    SpreadsheetApp.getUi().alert(
-      'Please specify a customer id in the CID and/or MCC fields on the Configuration sheet'
-    );
-    return;
-  }
   const devToken =
     ConfigReader.getValue(SETTINGS.ADS_DEV_TOKEN) ||
     PropertiesService.getDocumentProperties().getProperty(
@@ -65,13 +120,41 @@ export async function fetch_keywords() {
     );
     return;
   }
-  const client = new GoogleAdsClient(
+  return new GoogleAdsClient(
     {
-      devToken: devToken,
+      devToken: devToken || '',
       mccId: mccId,
     },
     new ConfigSheetReader()
   );
+}
+
+export function enter_llm_api_key() {
+  const res = SpreadsheetApp.getUi().prompt('Enter API key for LLM provider');
+  const apiKey = res.getResponseText();
+  const documentProperties = PropertiesService.getDocumentProperties();
+  documentProperties.setProperty(SETTINGS.LLM_API_KEY, apiKey);
+}
+
+export async function fetch_keywords() {
+  const mccId = ConfigReader.getValue(SETTINGS.MCC);
+  const seedCustomerId = ConfigReader.getValue(SETTINGS.CID) || mccId;
+  const campaignId = ConfigReader.getValue(SETTINGS.CAMPAIGN);
+  let selection: KeywordsSelection;
+  try {
+    selection = getKeywordsSelection();
+  } catch (e) {
+    SpreadsheetApp.getUi().alert(`${e}`);
+    return;
+  }
+  if (!seedCustomerId) {
+    SpreadsheetApp.getUi().alert(
+      'Please specify a customer id in the CID and/or MCC fields on the Configuration sheet'
+    );
+    return;
+  }
+  const client = getAdsClient();
+  if (!client) return;
 
   const customerIds = await client.expandCustomers(seedCustomerId);
 
@@ -82,7 +165,7 @@ export async function fetch_keywords() {
   let headers;
   let startRow = 2;
   for (const cid of customerIds) {
-    const kws = getAllKeywords(client, cid, campaignId, maxKeywords);
+    const kws = getAllKeywords(client, cid, campaignId, selection);
     if (!kws || kws.length === 0) {
       Logger.log(`No keywords for customer ${cid} were found`);
       continue;
@@ -92,8 +175,10 @@ export async function fetch_keywords() {
       headers = Object.keys(kws[0]);
       sheet.getRange(1, 1, 1, headers.length).setValues([headers]);
       sheet
-        .getRange(1, headers.length + 1, 1, 2)
-        .setValues([['headlines', 'descriptions']]);
+        .getRange(1, headers.length + 1, 1, 6)
+        .setValues([
+          ['headlines', 'descriptions', 'path1', 'path2', 'status', 'issues'],
+        ]);
     }
     const values = convertObjectsToArrays(kws);
     sheet.getRange(startRow, 1, kws.length, headers.length).setValues(values);
@@ -119,23 +204,214 @@ function convertObjectsToArrays(arrayOfObjects: AdGroup[]) {
       o.url,
       //o.urls && o.urls.length ? o.urls[0] : '',
       o.ignore,
+      o.existing_headlines?.join('\n'),
+      o.existing_descriptions?.join('\n'),
+      o.language,
+      o.language_override,
     ];
   });
 }
 
+/**
+ * Metrics (ranking keywords) supported in keywords selection.
+ */
+const KEYWORDS_METRICS = [
+  'clicks',
+  'impressions',
+  'conversions',
+  'conversions_value',
+];
+
+/**
+ * Parameters of selecting keywords for adgroups.
+ */
+export interface KeywordsSelection {
+  /** max number of keywords per adgroup */
+  maxKeywords?: number;
+  /** metric to rank keywords by (see KEYWORDS_METRICS) */
+  metric: string;
+  /** number of days to calculate metrics for (all time if 0) */
+  lookbackDays: number;
+  /** keyword match types (EXACT, PHRASE, BROAD), all if empty */
+  matchTypes: string[];
+  /** keyword statuses (ENABLED, PAUSED) */
+  statuses: string[];
+  /** number of top converting search terms to add to keywords */
+  searchTermsCount: number;
+  /** fetch keywords for adgroups without metrics (e.g. new ones) */
+  includeAdGroupsWithoutMetrics: boolean;
+}
+
+function parseList(value: string, defaultValue: string) {
+  return (value || defaultValue)
+    .toString()
+    .split(/[\s,|]+/)
+    .map(item => item.trim().toLocaleUpperCase())
+    .filter(item => !!item);
+}
+
+/**
+ * Read keywords selection parameters from the settings.
+ * @returns {KeywordsSelection}
+ */
+function getKeywordsSelection(): KeywordsSelection {
+  const metric = (
+    ConfigReader.getValue(SETTINGS.KEYWORDS_metric) || Config.keywords.metric
+  )
+    .toString()
+    .trim()
+    .toLocaleLowerCase()
+    .replaceAll(' ', '_');
+  if (!KEYWORDS_METRICS.includes(metric)) {
+    throw new Error(
+      `Unknown metric "${metric}" in ${
+        SETTINGS.KEYWORDS_metric
+      }, supported metrics: ${KEYWORDS_METRICS.join(', ')}`
+    );
+  }
+  const matchTypes = parseList(
+    ConfigReader.getValue(SETTINGS.KEYWORDS_match_types),
+    Config.keywords.matchTypes
+  );
+  for (const matchType of matchTypes) {
+    if (!['EXACT', 'PHRASE', 'BROAD'].includes(matchType)) {
+      throw new Error(
+        `Unknown match type "${matchType}" in ${SETTINGS.KEYWORDS_match_types}`
+      );
+    }
+  }
+  const statuses = parseList(
+    ConfigReader.getValue(SETTINGS.KEYWORDS_statuses),
+    Config.keywords.statuses
+  );
+  for (const status of statuses) {
+    if (!['ENABLED', 'PAUSED'].includes(status)) {
+      throw new Error(
+        `Unknown status "${status}" in ${SETTINGS.KEYWORDS_statuses}`
+      );
+    }
+  }
+  const includeAdGroupsWithoutMetrics = ConfigReader.getValue(
+    SETTINGS.KEYWORDS_include_adgroups_without_metrics
+  );
+  return {
+    maxKeywords:
+      parseInt(ConfigReader.getValue(SETTINGS.MAX_KEYWORDS)) ||
+      Config.keywords.maxKeywords,
+    metric,
+    lookbackDays:
+      parseInt(ConfigReader.getValue(SETTINGS.KEYWORDS_lookback_days)) || 0,
+    matchTypes,
+    statuses,
+    searchTermsCount:
+      parseInt(ConfigReader.getValue(SETTINGS.KEYWORDS_search_terms_count)) ||
+      0,
+    includeAdGroupsWithoutMetrics: includeAdGroupsWithoutMetrics
+      ? includeAdGroupsWithoutMetrics.toString().toLocaleUpperCase() === 'TRUE'
+      : Config.keywords.includeAdGroupsWithoutMetrics,
+  };
+}
+
+/**
+ * Create a GAQL condition for a date range ending yesterday.
+ * @param {Number} days - number of days
+ * @returns {String}
+ */
+function getDateRangeCondition(days: number) {
+  const formatDate = (date: Date) => date.toISOString().substring(0, 10);
+  const end = new Date();
+  end.setDate(end.getDate() - 1);
+  const start = new Date(end);
+  start.setDate(start.getDate() - days + 1);
+  return `segments.date BETWEEN '${formatDate(start)}' AND '${formatDate(
+    end
+  )}'`;
+}
+
+/**
+ * Fetch languages targeted by campaigns.
+ * @param {GoogleAdsClient} client
+ * @param {String} customerId
+ * @param [String] campaignId
+ * @returns {Record<string, string>} language names (separated by comma) per campaign id
+ */
+function getCampaignLanguages(
+  client: GoogleAdsClient,
+  customerId: string,
+  campaignId?: string
+): Record<string, string> {
+  let query = `SELECT
+    campaign.id,
+    campaign_criterion.language.language_constant
+  FROM campaign_criterion
+  WHERE campaign_criterion.type = LANGUAGE
+    AND campaign_criterion.negative = FALSE
+    AND campaign.status = ENABLED`;
+  if (campaignId) {
+    query += `\nAND campaign.id = ${campaignId}`;
+  }
+  Logger.log(`Fetching campaigns languages for CID=${customerId}`);
+  const rows = client.execQuery(query, customerId) || [];
+  if (!rows.length) return {};
+
+  const constants = removeRepeats(
+    rows.map((row: any) => row.campaignCriterion.language.languageConstant)
+  );
+  const queryNames = `SELECT
+    language_constant.resource_name,
+    language_constant.name
+  FROM language_constant
+  WHERE language_constant.resource_name IN (${constants
+    .map(name => `'${name}'`)
+    .join(', ')})`;
+  const names: Record<string, string> = {};
+  for (const row of client.execQuery(queryNames, customerId) || []) {
+    names[row.languageConstant.resourceName] = row.languageConstant.name;
+  }
+  const languages: Record<string, string[]> = {};
+  for (const row of rows) {
+    const constant = row.campaignCriterion.language.languageConstant;
+    const list = languages[row.campaign.id] || [];
+    list.push(names[constant] || constant);
+    languages[row.campaign.id] = list;
+  }
+  const result: Record<string, string> = {};
+  for (const [id, list] of Object.entries(languages)) {
+    result[id] = list.join(', ');
+  }
+  return result;
+}
+
 /**
  * Fetch all keywords for specific customer
  * @param {GoogleAdsClient} client
  * @param {String} customerId
  * @param [String] campaignId
+ * @param {KeywordsSelection} selection
  * @returns {Array<AdGroup>}
  */
-function getAllKeywords(
+export function getAllKeywords(
   client: GoogleAdsClient,
   customerId: string,
-  campaignId?: string,
-  maxKeywords?: string
+  campaignId: string | undefined,
+  selection: KeywordsSelection
 ): AdGroup[] {
+  const metric = `metrics.${selection.metric}`;
+  let keywordConditions = `ad_group.type = SEARCH_STANDARD
+    AND ad_group.status = ENABLED
+    AND campaign.status = ENABLED
+    AND ad_group_criterion.status IN (${selection.statuses.join(', ')})`;
+  if (selection.matchTypes.length) {
+    keywordConditions += `\n    AND ad_group_criterion.keyword.match_type IN (${selection.matchTypes.join(
+      ', '
+    )})`;
+  }
+  if (campaignId) {
+    keywordConditions += `\n    AND campaign.id = ${campaignId}`;
+  }
+  const dateCondition = selection.lookbackDays
+    ? `\nAND ${getDateRangeCondition(selection.lookbackDays)}`
+    : '';
   let queryKw = `SELECT
     customer.id,
     customer.descriptive_name,
@@ -144,28 +420,27 @@ function getAllKeywords(
     ad_group.id,
     ad_group.name,
     ad_group_criterion.keyword.text,
-    metrics.clicks
+    ${metric}
   FROM keyword_view
-  WHERE ad_group.type = SEARCH_STANDARD
-    AND ad_group.status = ENABLED
-    AND campaign.status = ENABLED
-    AND ad_group_criterion.status = ENABLED
-    AND metrics.clicks > 0
+  WHERE ${keywordConditions}
+    AND ${metric} > 0${dateCondition}
   `;
 
   let queryAds = `SELECT
     ad_group.id,
-    ad_group_ad.ad.final_urls
+    ad_group_ad.ad.final_urls,
+    ad_group_ad.ad.responsive_search_ad.headlines,
+    ad_group_ad.ad.responsive_search_ad.descriptions
   FROM ad_group_ad
   WHERE ad_group.type = SEARCH_STANDARD
     AND ad_group.status = ENABLED
     AND campaign.status = ENABLED
+    AND ad_group_ad.status != REMOVED
   `;
   if (campaignId) {
-    queryKw += `\nAND campaign.id = ${campaignId}`;
     queryAds += `\nAND campaign.id = ${campaignId}`;
   }
-  queryKw += `\nORDER BY customer.id, campaign.id, ad_group.id, metrics.clicks DESC`;
+  queryKw += `\nORDER BY customer.id, campaign.id, ad_group.id, ${metric} DESC`;
   queryAds += `\nORDER BY ad_group.id`;
   Logger.log(
     `Fetching ad_group_ad for CID=${customerId}, campaign=${campaignId}`
@@ -173,6 +448,8 @@ function getAllKeywords(
   const rowsAds = client.execQuery(queryAds, customerId);
 
   const adgroupUrls: Record<number, string[]> = {};
+  const adgroupHeadlines: Record<number, string[]> = {};
+  const adgroupDescriptions: Record<number, string[]> = {};
   let adgroupId;
   if (rowsAds && rowsAds.length) {
     for (const row of rowsAds) {
@@ -187,55 +464,169 @@ function getAllKeywords(
           adgroupUrls[row.adGroup.id].push(...urls);
         }
       }
+      // existing RSA assets (other ad types have no responsiveSearchAd field)
+      const rsa = row.adGroupAd.ad.responsiveSearchAd;
+      if (rsa) {
+        const headlines = adgroupHeadlines[row.adGroup.id] || [];
+        headlines.push(
+          ...removeRepeats(
+            (rsa.headlines || []).map((asset: any) => asset.text),
+            headlines
+          )
+        );
+        adgroupHeadlines[row.adGroup.id] = headlines;
+        const descriptions = adgroupDescriptions[row.adGroup.id] || [];
+        descriptions.push(
+          ...removeRepeats(
+            (rsa.descriptions || []).map((asset: any) => asset.text),
+            descriptions
+          )
+        );
+        adgroupDescriptions[row.adGroup.id] = descriptions;
+      }
       adgroupId = row.adGroup.id;
     }
   }
 
+  const campaignLanguages = getCampaignLanguages(
+    client,
+    customerId,
+    campaignId
+  );
+
+  // group keywords by adgroup (rows are sorted by adgroup)
+  const groupKeywords = (rows: any[], results: AdGroup[]) => {
+    let adgroupId;
+    let current: AdGroup | undefined = undefined;
+    for (const row of rows) {
+      if (row.adGroup.id !== adgroupId) {
+        // current adgroup has changed (including the case of the first row)
+        current = {
+          customer_id: row.customer.id,
+          customer_name: row.customer.descriptiveName,
+          campaign_id: row.campaign.id,
+          campaign_name: row.campaign.name,
+          adgroup_id: row.adGroup.id,
+          adgroup_name: row.adGroup.name,
+          keywords_array: [row.adGroupCriterion.keyword.text],
+          url: adgroupUrls[row.adGroup.id]
+            ? adgroupUrls[row.adGroup.id][0]
+            : '',
+          ignore: false,
+          existing_headlines: adgroupHeadlines[row.adGroup.id] || [],
+          existing_descriptions: adgroupDescriptions[row.adGroup.id] || [],
+          language: campaignLanguages[row.campaign.id] || '',
+          language_override: '',
+        };
+        results.push(current);
+      } else {
+        // same adgroup as before
+        current!.keywords_array!.push(row.adGroupCriterion.keyword.text);
+      }
+      adgroupId = row.adGroup.id;
+    }
+  };
+
   Logger.log(`Fetching keywords for CID=${customerId}, campaign=${campaignId}`);
-  const rows = client.execQuery(queryKw, customerId);
-  if (!rows || !rows.length) {
+  const results: AdGroup[] = [];
+  groupKeywords(client.execQuery(queryKw, customerId) || [], results);
+
+  if (selection.includeAdGroupsWithoutMetrics) {
+    // keywords of adgroups without metrics (e.g. new ones) can't be ranked
+    const queryNoMetrics = `SELECT
+    customer.id,
+    customer.descriptive_name,
+    campaign.id,
+    campaign.name,
+    ad_group.id,
+    ad_group.name,
+    ad_group_criterion.keyword.text
+  FROM ad_group_criterion
+  WHERE ${keywordConditions}
+    AND ad_group_criterion.type = KEYWORD
+    AND ad_group_criterion.negative = FALSE
+  ORDER BY customer.id, campaign.id, ad_group.id`;
+    Logger.log(
+      `Fetching keywords of adgroups without ${metric} for CID=${customerId}`
+    );
+    const fetched = new Set(results.map(adgroup => adgroup.adgroup_id));
+    groupKeywords(
+      (client.execQuery(queryNoMetrics, customerId) || []).filter(
+        (row: any) => !fetched.has(row.adGroup.id)
+      ),
+      results
+    );
+  }
+  if (!results.length) {
     return [];
   }
 
-  adgroupId = undefined;
-  const results: AdGroup[] = [];
-  let current: AdGroup | undefined = undefined;
-  for (const row of rows) {
-    // we'll group keywords by adgroup
-    if (row.adGroup.id !== adgroupId) {
-      // current adgroup has changed (including the case of the first row)
-      current = {
-        customer_id: row.customer.id,
-        customer_name: row.customer.descriptiveName,
-        campaign_id: row.campaign.id,
-        campaign_name: row.campaign.name,
-        adgroup_id: row.adGroup.id,
-        adgroup_name: row.adGroup.name,
-        keywords_array: [row.adGroupCriterion.keyword.text],
-        url: adgroupUrls[row.adGroup.id] ? adgroupUrls[row.adGroup.id][0] : '',
-        ignore: false,
-      };
-      results.push(current);
-    } else {
-      // same adgroup as before
-      current!.keywords_array!.push(row.adGroupCriterion.keyword.text);
+  for (const adgroup of results) {
+    if (selection.maxKeywords) {
+      adgroup.keywords_array!.splice(selection.maxKeywords);
+    }
+    // sometime people add "+" to keywords, remove them
+    for (let i = 0; i < adgroup.keywords_array!.length; i++) {
+      const kw = adgroup.keywords_array![i].replaceAll('+', '');
+      adgroup.keywords_array![i] = kw;
     }
-    adgroupId = row.adGroup.id;
   }
-  if (maxKeywords) {
-    const maxKeywordsNum = parseInt(maxKeywords);
+
+  if (selection.searchTermsCount) {
+    let querySearchTerms = `SELECT
+    ad_group.id,
+    search_term_view.search_term,
+    metrics.conversions
+  FROM search_term_view
+  WHERE ad_group.type = SEARCH_STANDARD
+    AND ad_group.status = ENABLED
+    AND campaign.status = ENABLED
+    AND metrics.conversions > 0${dateCondition}`;
+    if (campaignId) {
+      querySearchTerms += `\nAND campaign.id = ${campaignId}`;
+    }
+    querySearchTerms += `\nORDER BY ad_group.id, metrics.conversions DESC`;
+    Logger.log(`Fetching search terms for CID=${customerId}`);
+    const searchTerms: Record<number, string[]> = {};
+    for (const row of client.execQuery(querySearchTerms, customerId) || []) {
+      const terms = searchTerms[row.adGroup.id] || [];
+      terms.push(row.searchTermView.searchTerm);
+      searchTerms[row.adGroup.id] = terms;
+    }
     for (const adgroup of results) {
-      adgroup.keywords_array!.splice(maxKeywordsNum);
-      // sometime people add "+" to keywords, remove them
-      for (let i = 0; i < adgroup.keywords_array!.length; i++) {
-        const kw = adgroup.keywords_array![i].replaceAll('+', '');
-        adgroup.keywords_array![i] = kw;
-      }
+      const terms = removeRepeats(
+        searchTerms[adgroup.adgroup_id!] || [],
+        adgroup.keywords_array
+      );
+      adgroup.keywords_array!.push(
+        ...terms.slice(0, selection.searchTermsCount)
+      );
     }
   }
   return results;
 }
 
+/**
+ * Remove exact and case-insensitive repeats from a list of ad texts.
+ * @param {String[]} texts - texts to filter
+ * @param [String[]] existing - already used texts, their repeats are removed as well
+ * @returns {String[]} texts that are unique and do not repeat existing ones
+ */
+export function removeRepeats(texts: string[], existing?: string[]) {
+  const result: string[] = [];
+  const seen = new Set(
+    (existing || []).map(text => text.trim().toLocaleLowerCase())
+  );
+  for (const text of texts) {
+    if (!text) continue;
+    const key = text.trim().toLocaleLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(text);
+  }
+  return result;
+}
+
 /**
  * @class AdGroup
  * @description the fields names are used as headers in 'keywords' sheets
@@ -248,6 +639,10 @@ function getAllKeywords(
  * @property {Array} keywords
  * @property {String} url
  * @property {Boolean} ignore
+ * @property {Array} existing_headlines - headlines of RSAs already in the adgroup
+ * @property {Array} existing_descriptions - descriptions of RSAs already in the adgroup
+ * @property {String} path1 - display path 1
+ * @property {String} path2 - display path 2
  */
 interface AdGroup {
   customer_id: string;
@@ -260,38 +655,156 @@ interface AdGroup {
   keywords?: string;
   url: string;
   ignore: boolean;
+  existing_headlines?: string[];
+  existing_descriptions?: string[];
+  /** target language (names of campaign's languages) */
+  language?: string;
+  /** user defined language to use instead of the campaign's one */
+  language_override?: string;
   headlines?: string;
   all_headlines?: string[];
   descriptions?: string;
+  path1?: string;
+  path2?: string;
 }
 
-function getPredictor() {
-  const projectId = ConfigReader.getValue(SETTINGS.CLOUD_PROJECT_ID);
-  if (!projectId) {
-    SpreadsheetApp.getUi().alert(
+/**
+ * Create a predictor with settings from a config reader.
+ * @param {IConfigReader} configReader
+ * @returns {Predictor}
+ * @throws {Error} if required settings are missing
+ */
+function createPredictor(configReader: IConfigReader) {
+  const projectId = configReader.getValue(SETTINGS.CLOUD_PROJECT_ID);
+  const provider = configReader
+    .getValue(SETTINGS.LLM_Provider)
+    .toString()
+    .toLocaleLowerCase();
+  if (!projectId && (!provider || provider === ModelProvider.Vertex)) {
+    throw new Error(
       'Please provide a GCP project id on the Configuration sheet (you should also enable Vertex API in that proejct)'
     );
-    return;
   }
-  const customerName = ConfigReader.getValue(SETTINGS.CUSTOMER_NAME);
+  const customerName = configReader.getValue(SETTINGS.CUSTOMER_NAME);
   if (!customerName) {
-    SpreadsheetApp.getUi().alert(
+    throw new Error(
       'Please specify a customer name on the Configuration sheet'
     );
-    return;
   }
 
-  const api = new GeminiVertexApi(projectId, new ConfigSheetReader());
+  const api = createModelApi(projectId, configReader);
   api.logging =
-    ConfigReader.getValue(SETTINGS.LOGGING).toString().toLocaleUpperCase() ===
+    configReader.getValue(SETTINGS.LOGGING).toString().toLocaleUpperCase() ===
     'TRUE';
   const predictor = new Predictor(api, customerName);
   return predictor;
 }
 
+function getPredictor() {
+  try {
+    return createPredictor(new ConfigSheetReader());
+  } catch (e) {
+    SpreadsheetApp.getUi().alert((<Error>e).message);
+    return;
+  }
+}
+
+/**
+ * Get a predictor for an adgroup taking into account configuration overrides
+ * (predictors are cached by overridden values).
+ * @param {Predictor} predictor - a predictor with the global configuration
+ * @param {ConfigOverride[]} overrides
+ * @param {AdGroup} adgroup
+ * @param {Object} cache
+ * @returns {Predictor}
+ */
+function getAdGroupPredictor(
+  predictor: Predictor,
+  overrides: ConfigOverride[],
+  adgroup: AdGroup,
+  cache: Record<string, Predictor>
+) {
+  const values = resolveConfigOverrides(overrides, adgroup);
+  if (!Object.keys(values).length) return predictor;
+  const key = JSON.stringify(values);
+  if (!cache[key]) {
+    Logger.log(
+      `Using configuration overrides for adgroup ${adgroup.adgroup_id}: ${key}`
+    );
+    cache[key] = createPredictor(
+      new OverridesConfigReader(predictor.configReader, values)
+    );
+  }
+  return cache[key];
+}
+
+/**
+ * Modes of processing rows that already have generated output.
+ */
+export enum GenerationMode {
+  /** only process rows with empty headlines or descriptions */
+  FillEmpty = 'fill-empty',
+  /** replace output of all rows */
+  Overwrite = 'overwrite',
+  /** add new headlines/descriptions to the existing output */
+  Append = 'append',
+  /** only process rows whose keywords changed since the last generation */
+  ChangedKeywords = 'changed-keywords',
+}
+
+/**
+ * Get a generation mode from a value (the default is from the settings).
+ * @param [String] value
+ * @returns {GenerationMode}
+ */
+function getGenerationMode(value?: string): GenerationMode {
+  value = (value || ConfigReader.getValue(SETTINGS.GENERATION_mode) || '')
+    .toString()
+    .trim()
+    .toLocaleLowerCase();
+  if (!value) return Config.generation.mode as GenerationMode;
+  const modes = Object.values(GenerationMode) as string[];
+  if (!modes.includes(value)) {
+    throw new Error(
+      `Unknown generation mode "${value}", supported modes: ${modes.join(', ')}`
+    );
+  }
+  return value as GenerationMode;
+}
+
 interface RowsRange {
   startRow?: number;
   endRow?: number;
+  /** a GenerationMode value (by default the setting's one) */
+  mode?: string;
+}
+
+interface GenerationOptions {
+  /** time (ms since epoch) to stop processing before */
+  deadline?: number;
+  /**
+   * called after each processed row (including failed ones, with
+   * continueOnError), processing stops if it returns false
+   */
+  onRowProcessed?: (rowNo: number, failed?: boolean) => boolean;
+  /** accounting of model calls */
+  usage?: UsageTracker;
+  /**
+   * process other rows if a row fails (its error is written to the status
+   * column), otherwise the error is thrown
+   */
+  continueOnError?: boolean;
+}
+
+interface GenerationResult {
+  /** last processed row (sheet row number) */
+  lastRow: number;
+  /** all rows in the range were processed */
+  completed: boolean;
+}
+
+function isKeywordsSheet(sheet: GoogleAppsScript.Spreadsheet.Sheet) {
+  return sheet.getName().toLocaleLowerCase().startsWith('keywords');
 }
 
 /**
@@ -301,7 +814,7 @@ interface RowsRange {
  */
 export function generate_rsa(range?: RowsRange) {
   const sheet = SpreadsheetApp.getActiveSheet();
-  if (!sheet.getName().toLocaleLowerCase().startsWith('keywords')) {
+  if (!isKeywordsSheet(sheet)) {
     console.log(sheet.getName());
     SpreadsheetApp.getUi().alert(
       'Please switch to a sheet with keywords (it should be titled "keywords")'
@@ -312,6 +825,174 @@ export function generate_rsa(range?: RowsRange) {
   const predictor = getPredictor();
   if (!predictor) return;
 
+  const usage = new UsageTracker();
+  try {
+    generateRsaForRows(sheet, predictor, range, { usage });
+  } finally {
+    completeRun(usage);
+  }
+}
+
+/**
+ * Save usage (to the Usage sheet) and recorded model traffic of a run.
+ * @param {UsageTracker} usage
+ */
+function completeRun(usage: UsageTracker) {
+  writeUsageSheet(usage, getPriceTable(new ConfigSheetReader()));
+  saveRecordedTraffic();
+}
+
+/**
+ * Estimated usage of a generation run.
+ */
+interface UsageEstimate {
+  /** number of adgroups to process */
+  adgroups: number;
+  calls: number;
+  promptTokens: number;
+  candidatesTokens: number;
+  model: string;
+  /** USD (undefined if the model's price is unknown) */
+  cost?: number;
+}
+
+/**
+ * Estimate usage of generating ads for rows of a sheet with keywords
+ * (by sizes of prompt templates and keywords, without rewrites and retries).
+ * @param sheet - a sheet with keywords
+ * @param [RowsRange] range - rows to process (all by default)
+ * @returns {UsageEstimate}
+ */
+export function estimateRunUsage(
+  sheet: GoogleAppsScript.Spreadsheet.Sheet,
+  range?: RowsRange
+): UsageEstimate {
+  if (!isKeywordsSheet(sheet)) {
+    throw new Error(
+      'Please switch to a sheet with keywords (it should be titled "keywords")'
+    );
+  }
+  const configReader = new ConfigSheetReader();
+  const predictor = createPredictor(configReader);
+  const startRow = Math.max(range?.startRow || 2, 2);
+  const endRow = range?.endRow || sheet.getLastRow();
+  const estimate: UsageEstimate = {
+    adgroups: 0,
+    calls: 0,
+    promptTokens: 0,
+    candidatesTokens: 0,
+    model: predictor.api.modelName || '',
+  };
+  if (endRow < startRow) return estimate;
+  const outputTokens = Config.usage.outputTokens;
+  const landingPageTokens = estimateTokens(
+    'x'.repeat(Config.landingPage.maxLength)
+  );
+  // candidate sets are generated in one request or in a request per set
+  const candidates = Math.max(predictor.candidates, 1);
+  const candidateCalls =
+    predictor.candidatesMethod === 'candidateCount' &&
+    predictor.api.predictCandidates
+      ? 1
+      : candidates;
+  // prompts, tokens of inputs added to them (besides keywords), number of
+  // calls and number of replies per call
+  const stages: [PredictionStage, string, number, number, number][] = [
+    [
+      'headlines',
+      predictor.promptHeadlinesTemplate,
+      0,
+      candidateCalls,
+      candidates / candidateCalls,
+    ],
+    [
+      'descriptions',
+      predictor.promptDescriptionsTemplate,
+      outputTokens.headlines,
+      candidateCalls,
+      candidates / candidateCalls,
+    ],
+    ['paths', predictor.promptPathsTemplate, 0, 1, 1],
+  ];
+  if (candidates > 1 && predictor.judge) {
+    for (const stage of ['headlines', 'descriptions']) {
+      stages.push([
+        'judge',
+        predictor.promptJudgeTemplate,
+        outputTokens[stage] * candidates,
+        1,
+        1,
+      ]);
+    }
+  }
+  if (
+    configReader
+      .getValue(SETTINGS.LLM_Language_Check)
+      .toString()
+      .toLocaleUpperCase() !== 'FALSE'
+  ) {
+    stages.push([
+      'language',
+      predictor.promptLanguageCheckTemplate,
+      outputTokens.headlines + outputTokens.descriptions,
+      1,
+      1,
+    ]);
+  }
+  const values = sheet
+    .getRange(startRow, 1, endRow - startRow + 1, 9)
+    .getValues();
+  for (const row of values) {
+    const keywords = row[6];
+    const ignore = row[8] === true || row[8] === 'TRUE';
+    if (ignore || !keywords) continue;
+    estimate.adgroups += 1;
+    const keywordsTokens = estimateTokens(keywords);
+    for (const [stage, template, inputTokens, calls, replies] of stages) {
+      let tokens = estimateTokens(template) + keywordsTokens + inputTokens;
+      if (/\{(#if\s+)?LANDING_PAGE\b/.test(template)) {
+        tokens += landingPageTokens;
+      }
+      estimate.calls += calls;
+      estimate.promptTokens +=
+        Math.min(tokens, predictor.tokenBudgets[stage]) * calls;
+      estimate.candidatesTokens += outputTokens[stage] * calls * replies;
+    }
+  }
+  estimate.cost = estimateCost(
+    estimate.promptTokens,
+    estimate.candidatesTokens,
+    getModelPrice(estimate.model, getPriceTable(configReader))
+  );
+  return estimate;
+}
+
+/**
+ * Get prices of models (default ones and from the settings).
+ * @param {IConfigReader} configReader
+ */
+function getPriceTable(configReader: IConfigReader) {
+  return parsePriceTable(
+    configReader.getValue(SETTINGS.LLM_Prices),
+    Config.usage.prices
+  );
+}
+
+/**
+ * Generate headlines, descriptions and paths for rows of a sheet with keywords.
+ * @param sheet - a sheet with keywords
+ * @param {Predictor} defaultPredictor - a predictor for adgroups without
+ *  configuration overrides
+ * @param [RowsRange] range - rows to process (all by default)
+ * @param [GenerationOptions] options
+ * @returns {GenerationResult}
+ */
+function generateRsaForRows(
+  sheet: GoogleAppsScript.Spreadsheet.Sheet,
+  defaultPredictor: Predictor,
+  range?: RowsRange,
+  options?: GenerationOptions
+): GenerationResult {
   if (!range) {
     range = {
       startRow: 2,
@@ -325,20 +1006,36 @@ export function generate_rsa(range?: RowsRange) {
     range.startRow = 2;
   }
   const rowNums = range.endRow - range.startRow + 1;
+  if (rowNums <= 0) {
+    return { lastRow: range.endRow, completed: true };
+  }
   const lastCol = sheet.getLastColumn();
   const values = sheet
-    .getRange(range.startRow, 1, rowNums, lastCol - 2)
+    .getRange(range.startRow, 1, rowNums, lastCol)
     .getValues();
   Logger.log(
-    `Generating headlines for "${predictor.customerName}" for ${values.length} adgroups`
+    `Generating headlines for "${defaultPredictor.customerName}" for ${values.length} adgroups`
   );
 
   // A/1: customer_id, B/2: customer_name, C/3:campaign_id, D/4: campaign_name,
   // E / 5: adgroup_id, F / 6: adgroup_name, G / 7: keywords, H / 8: urls,
-  // I / 9: ignore, J / 10: headlines, K / 11: descriptions
+  // I / 9: ignore, then (in sheets fetched by newer versions)
+  // existing_headlines, existing_descriptions, and finally headlines, descriptions,
+  // path1, path2, status, issues
   const columns = sheet.getRange(1, 1, 1, lastCol).getValues()[0];
   const COL_Headlines = columns.indexOf('headlines') + 1;
   const COL_Descriptions = columns.indexOf('descriptions') + 1;
+  const COL_Path1 = ensureColumn(sheet, columns, 'path1');
+  const COL_Path2 = ensureColumn(sheet, columns, 'path2');
+  const COL_Status = ensureColumn(sheet, columns, 'status');
+  const COL_Issues = ensureColumn(sheet, columns, 'issues');
+  const COL_KeywordsHash = ensureColumn(sheet, columns, 'keywords_hash');
+  // scores of selected candidates (added only if candidates are ranked)
+  let COL_Scores = columns.indexOf('scores') + 1;
+  const mode = getGenerationMode(range.mode);
+  const overrides = loadConfigOverrides();
+  const predictors: Record<string, Predictor> = {};
+  Logger.log(`Generation mode: ${mode}`);
 
   if (COL_Headlines === 0) {
     throw new Error('Could not fild a column with title "headlines"');
@@ -346,25 +1043,12 @@ export function generate_rsa(range?: RowsRange) {
   if (COL_Descriptions === 0) {
     throw new Error('Could not fild a column with title "descriptions"');
   }
-  const adGroupsQueue: { adGroup: AdGroup; rowNo: number }[] = [];
+  const adGroupsQueue: { adGroup: AdGroup; rowNo: number; row: any[] }[] = [];
   let rowNo = range.startRow - 1;
   for (const row of values) {
     rowNo += 1; // this is row number in the sheet with current AdGroup
     // each row is an unique adgroup
-    const adGroup: AdGroup = {
-      customer_id: row[0],
-      customer_name: row[1],
-      campaign_id: row[2],
-      campaign_name: row[3],
-      adgroup_id: row[4],
-      adgroup_name: row[5],
-      keywords: row[6],
-      url: row[7],
-      ignore: row[8] === true || row[8] === 'TRUE',
-      headlines: undefined,
-      all_headlines: undefined,
-      descriptions: undefined,
-    };
+    const adGroup = createAdGroupFromRow(row, columns);
 
     if (adGroup.ignore) {
       Logger.log(
@@ -378,47 +1062,1261 @@ export function generate_rsa(range?: RowsRange) {
       );
       continue;
     }
+    const previousHeadlines = splitOutputText(row[COL_Headlines - 1]);
+    if (
+      mode === GenerationMode.FillEmpty &&
+      previousHeadlines.length &&
+      splitOutputText(row[COL_Descriptions - 1]).length
+    ) {
+      Logger.log(
+        `Skipping adgroup ${adGroup.adgroup_id} (${adGroup.adgroup_name}) as it already has headlines and descriptions`
+      );
+      continue;
+    }
+    if (
+      mode === GenerationMode.ChangedKeywords &&
+      row[COL_KeywordsHash - 1] === getKeywordsHash(adGroup.keywords)
+    ) {
+      Logger.log(
+        `Skipping adgroup ${adGroup.adgroup_id} (${adGroup.adgroup_name}) as its keywords haven't changed`
+      );
+      continue;
+    }
+    if (mode === GenerationMode.Append) {
+      // previous output shouldn't be repeated as well as existing ads
+      adGroup.existing_headlines!.push(...previousHeadlines);
+      adGroup.existing_descriptions!.push(
+        ...splitOutputText(row[COL_Descriptions - 1])
+      );
+    }
     adGroupsQueue.push({
       adGroup,
       rowNo: rowNo,
+      row,
     });
   }
   // NOTE: we have 6 minutes quota for execution time,
-  // roughly we can process 40 adgroups
+  // roughly we can process 40 adgroups (use generate_rsa_resumable for more)
+  let lastRow = range.startRow - 1;
+  // max time of processing a row, to stop before the deadline
+  let maxRowTime = 0;
   for (let i = 0; i < adGroupsQueue.length; i++) {
     const adGroup = adGroupsQueue[i].adGroup;
     const rowNo = adGroupsQueue[i].rowNo;
+    const row = adGroupsQueue[i].row;
+    const rowStartTime = Date.now();
+    if (options?.deadline && rowStartTime + maxRowTime > options.deadline) {
+      Logger.log(
+        `Stopping before the execution time limit, last processed row: ${lastRow}`
+      );
+      SpreadsheetApp.flush();
+      return { lastRow, completed: false };
+    }
     Logger.log(
       `Processing adgroup ${adGroup.adgroup_id} (${adGroup.adgroup_name}) - ${
         rowNo - 1
       } of ${adGroupsQueue.length}`
     );
-    predictor.clearHistory();
-    const allHeadlinesText = getHeadlinesForAdgroup(predictor, adGroup);
-    sheet.getRange(rowNo, COL_Headlines).setValue(allHeadlinesText);
-    if (allHeadlinesText) {
-      adGroup.descriptions = predictor.getDescriptions(adGroup);
-      sheet.getRange(rowNo, COL_Descriptions).setValue(adGroup.descriptions);
-      if (!adGroup.descriptions) {
-        Logger.log(
-          `WARNING: no descriptions were generated for ${adGroup.adgroup_id} (${adGroup.adgroup_name})`
-        );
+    let failed = false;
+    try {
+      const predictor = getAdGroupPredictor(
+        defaultPredictor,
+        overrides,
+        adGroup,
+        predictors
+      );
+      const trademarks = parseTrademarks(
+        predictor.configReader.getValue(SETTINGS.LINTER_trademarks)
+      );
+      const checkLanguage =
+        predictor.configReader
+          .getValue(SETTINGS.LLM_Language_Check)
+          .toString()
+          .toLocaleUpperCase() !== 'FALSE';
+      predictor.clearHistory();
+      predictor.usage = options?.usage;
+      if (options?.usage) {
+        options.usage.adgroupId = String(adGroup.adgroup_id);
+      }
+      const append = mode === GenerationMode.Append;
+      const allHeadlinesText = getHeadlinesForAdgroup(predictor, adGroup);
+      let headlinesText = allHeadlinesText;
+      let descriptionsText = '';
+      if (append) {
+        headlinesText = appendOutputText(row[COL_Headlines - 1], headlinesText);
+        descriptionsText = row[COL_Descriptions - 1] || '';
+      }
+      sheet.getRange(rowNo, COL_Headlines).setValue(headlinesText);
+      if (allHeadlinesText) {
+        adGroup.descriptions = predictor.getDescriptions(adGroup);
+        descriptionsText = append
+          ? appendOutputText(descriptionsText, adGroup.descriptions)
+          : adGroup.descriptions;
+        sheet.getRange(rowNo, COL_Descriptions).setValue(descriptionsText);
+        if (!adGroup.descriptions) {
+          Logger.log(
+            `WARNING: no descriptions were generated for ${adGroup.adgroup_id} (${adGroup.adgroup_name})`
+          );
+        }
+        const previousPaths = [row[COL_Path1 - 1], row[COL_Path2 - 1]];
+        if (append && previousPaths[0] && previousPaths[1]) {
+          adGroup.path1 = previousPaths[0];
+          adGroup.path2 = previousPaths[1];
+        } else {
+          const paths = predictor.getPaths(adGroup);
+          adGroup.path1 = paths[0] || '';
+          adGroup.path2 = paths[1] || '';
+          sheet
+            .getRange(rowNo, COL_Path1, 1, 2)
+            .setValues([[adGroup.path1, adGroup.path2]]);
+        }
+        sheet
+          .getRange(rowNo, COL_KeywordsHash)
+          .setValue(getKeywordsHash(adGroup.keywords));
+      }
+      sheet.getRange(rowNo, COL_Status).setValue(predictor.status.join('\n'));
+      if (predictor.scores.length && !COL_Scores) {
+        COL_Scores = ensureColumn(sheet, columns, 'scores');
+      }
+      if (COL_Scores) {
+        sheet.getRange(rowNo, COL_Scores).setValue(predictor.scores.join('\n'));
+      }
+      const texts = [
+        ...splitOutputText(headlinesText, true),
+        ...splitOutputText(descriptionsText, true),
+      ];
+      const issues = lintAdTexts(texts, trademarks);
+      if (checkLanguage && adGroup.language && allHeadlinesText) {
+        for (const text of predictor.checkLanguage(texts, adGroup.language)) {
+          issues.push(`"${text}": not in ${adGroup.language}`);
+        }
       }
+      sheet.getRange(rowNo, COL_Issues).setValue(issues.join('\n'));
+    } catch (e) {
+      if (!options?.continueOnError) throw e;
+      Logger.log(
+        `ERROR: failed to process adgroup ${adGroup.adgroup_id} (${adGroup.adgroup_name}): ${e}`
+      );
+      sheet.getRange(rowNo, COL_Status).setValue(`ERROR: ${e}`);
+      failed = true;
     }
+    lastRow = rowNo;
+    maxRowTime = Math.max(maxRowTime, Date.now() - rowStartTime);
     // update UI on each 10th iteration
     if ((i + 1) % 10 === 0) {
       SpreadsheetApp.flush();
     }
+    if (options?.onRowProcessed && !options.onRowProcessed(rowNo, failed)) {
+      SpreadsheetApp.flush();
+      return { lastRow, completed: false };
+    }
   }
+  return { lastRow: range.endRow, completed: true };
 }
 
-function getHeadlinesForAdgroup(predictor: Predictor, adGroup: AdGroup) {
-  const genRes = predictor.getHeadlines(adGroup);
+/**
+ * Create an adgroup from a row of a keywords sheet.
+ * @param {Array} row - row's values
+ * @param {Array} columns - sheet's headers
+ * @returns {AdGroup}
+ */
+function createAdGroupFromRow(row: any[], columns: any[]): AdGroup {
+  const COL_ExistingHeadlines = columns.indexOf('existing_headlines') + 1;
+  const COL_ExistingDescriptions = columns.indexOf('existing_descriptions') + 1;
+  const COL_Language = columns.indexOf('language') + 1;
+  const COL_LanguageOverride = columns.indexOf('language_override') + 1;
+  return {
+    customer_id: row[0],
+    customer_name: row[1],
+    campaign_id: row[2],
+    campaign_name: row[3],
+    adgroup_id: row[4],
+    adgroup_name: row[5],
+    keywords: row[6],
+    url: row[7],
+    ignore: row[8] === true || row[8] === 'TRUE',
+    existing_headlines: splitCellText(row, COL_ExistingHeadlines),
+    existing_descriptions: splitCellText(row, COL_ExistingDescriptions),
+    language: (
+      (COL_LanguageOverride && row[COL_LanguageOverride - 1]) ||
+      (COL_Language && row[COL_Language - 1]) ||
+      ''
+    )
+      .toString()
+      .trim(),
+    headlines: undefined,
+    all_headlines: undefined,
+    descriptions: undefined,
+  };
+}
 
-  adGroup.headlines = genRes.headlines.join('\n');
-  adGroup.all_headlines = [
-    ...genRes.headlines,
-    ...(genRes.longHeadlines || []),
+/**
+ * Root function for calling from the UI menu.
+ * Generates headlines/descriptions for all rows of the active sheet in
+ * a resumable run: progress is saved in document properties after each row,
+ * and before the execution time limit the run stops and schedules
+ * a time-based trigger to continue.
+ * NOTE: triggers call a global function of the client project, so it should
+ * define a function (Config.generation.continuationHandler) calling
+ * generate_rsa_continue of the library.
+ */
+export function generate_rsa_resumable() {
+  const ui = SpreadsheetApp.getUi();
+  let run = loadGenerationRun();
+  if (run && run.status === 'completed') {
+    // a completed run is only kept to show its failed rows
+    run = undefined;
+  }
+  if (run && run.status === 'running') {
+    ui.alert(
+      `There is a generation run in progress:\n\n${formatGenerationRun(
+        run
+      )}\n\nPlease pause or cancel it first.`
+    );
+    return;
+  }
+  if (run) {
+    const res = ui.alert(
+      `There is a ${run.status} generation run:\n\n${formatGenerationRun(
+        run
+      )}\n\nResume it (Yes) or start a new one (No)?`,
+      ui.ButtonSet.YES_NO_CANCEL
+    );
+    if (res === ui.Button.YES) {
+      run.status = 'running';
+      run.failures = 0;
+      run.error = undefined;
+    } else if (res === ui.Button.NO) {
+      run = undefined;
+    } else {
+      return;
+    }
+  }
+  if (!run) {
+    const sheet = SpreadsheetApp.getActiveSheet();
+    if (!isKeywordsSheet(sheet)) {
+      ui.alert(
+        'Please switch to a sheet with keywords (it should be titled "keywords")'
+      );
+      return;
+    }
+    run = createGenerationRun(
+      sheet.getName(),
+      2,
+      sheet.getLastRow(),
+      getGenerationMode()
+    );
+  }
+  const predictor = getPredictor();
+  if (!predictor) return;
+  saveGenerationRun(run);
+  continueGenerationRun(run, predictor);
+}
+
+/**
+ * Continue a resumable generation run (called by a time-based trigger).
+ */
+export function generate_rsa_continue() {
+  deleteContinuations(Config.generation.continuationHandler);
+  const run = loadGenerationRun();
+  if (!run || run.status !== 'running') {
+    Logger.log('There is no generation run to continue');
+    return;
+  }
+  // triggers have no UI, so errors are only logged and recorded in the run
+  let predictor;
+  try {
+    predictor = createPredictor(new ConfigSheetReader());
+  } catch (e) {
+    handleGenerationRunError(run, e);
+    return;
+  }
+  continueGenerationRun(run, predictor);
+}
+
+/**
+ * Record an error of a run's execution. The run is continued by a new
+ * trigger until the max number of failed executions is reached, then it's
+ * marked as failed (it can be resumed from the menu).
+ * @param {GenerationRun} run
+ * @param e - error
+ */
+function handleGenerationRunError(run: GenerationRun, e: unknown) {
+  const current = loadGenerationRun();
+  if (!current || current.runId !== run.runId) return;
+  current.failures = (current.failures || 0) + 1;
+  current.error = String(e);
+  Logger.log(
+    `ERROR: execution of generation run ${run.runId} failed (${current.failures} of ${Config.generation.maxFailures}): ${e}`
+  );
+  if (current.failures >= Config.generation.maxFailures) {
+    current.status = 'failed';
+  }
+  saveGenerationRun(current);
+  if (current.status === 'running') {
+    scheduleContinuation(Config.generation.continuationHandler);
+  }
+}
+
+function continueGenerationRun(run: GenerationRun, predictor: Predictor) {
+  const startTime = Date.now();
+  const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(
+    run.sheetName
+  );
+  if (!sheet) {
+    Logger.log(
+      `Sheet "${run.sheetName}" of generation run ${run.runId} not found, canceling the run`
+    );
+    clearGenerationRun();
+    return;
+  }
+
+  run.executions += 1;
+  saveGenerationRun(run);
+  Logger.log(
+    `Continuing generation run ${run.runId} from row ${run.lastRow + 1}`
+  );
+  const usage = new UsageTracker();
+  let res;
+  try {
+    res = generateRsaForRows(
+      sheet,
+      predictor,
+      { startRow: run.lastRow + 1, endRow: run.endRow, mode: run.mode },
+      {
+        deadline: startTime + Config.generation.maxExecutionTime,
+        usage,
+        continueOnError: true,
+        onRowProcessed: (rowNo, failed) => {
+          // the run can be paused or canceled from the menu meanwhile
+          const current = loadGenerationRun();
+          if (!current || current.runId !== run.runId) {
+            Logger.log(`Generation run ${run.runId} was canceled`);
+            return false;
+          }
+          current.lastRow = rowNo;
+          if (failed) {
+            current.failedRows = (current.failedRows || 0) + 1;
+          } else {
+            current.processed += 1;
+          }
+          saveGenerationRun(current);
+          if (current.status !== 'running') {
+            Logger.log(`Generation run ${run.runId} was paused`);
+            return false;
+          }
+          return true;
+        },
+      }
+    );
+  } catch (e) {
+    handleGenerationRunError(run, e);
+    return;
+  } finally {
+    completeRun(usage);
+  }
+  const current = loadGenerationRun();
+  if (!current || current.runId !== run.runId) return;
+  if (res.completed) {
+    Logger.log(
+      `Generation run ${run.runId} completed, processed rows: ${
+        current.processed
+      }, failed rows: ${current.failedRows || 0}`
+    );
+    if (current.failedRows) {
+      current.status = 'completed';
+      saveGenerationRun(current);
+    } else {
+      clearGenerationRun();
+    }
+  } else if (current.status === 'running') {
+    scheduleContinuation(Config.generation.continuationHandler);
+  }
+}
+
+export function view_generation_run() {
+  const run = loadGenerationRun();
+  SpreadsheetApp.getUi().alert(
+    run ? formatGenerationRun(run) : 'There is no generation run'
+  );
+}
+
+export function pause_generation_run() {
+  const ui = SpreadsheetApp.getUi();
+  const run = loadGenerationRun();
+  if (!run || run.status !== 'running') {
+    ui.alert('There is no generation run in progress');
+    return;
+  }
+  deleteContinuations(Config.generation.continuationHandler);
+  run.status = 'paused';
+  saveGenerationRun(run);
+  ui.alert(
+    'The generation run is paused (the current row will be completed). Use "Generate headlines/descriptions in background" to resume it.'
+  );
+}
+
+export function cancel_generation_run() {
+  const ui = SpreadsheetApp.getUi();
+  const run = loadGenerationRun();
+  if (!run) {
+    ui.alert('There is no generation run');
+    return;
+  }
+  const res = ui.alert(
+    `Cancel the generation run?\n\n${formatGenerationRun(run)}`,
+    ui.ButtonSet.YES_NO
+  );
+  if (res !== ui.Button.YES) return;
+  deleteContinuations(Config.generation.continuationHandler);
+  clearGenerationRun();
+}
+
+/**
+ * A row of a keywords sheet processed by batch generation.
+ */
+interface BatchRow {
+  /** row's values (updated with results) */
+  row: any[];
+  adGroup: AdGroup;
+  predictor: Predictor;
+}
+
+/**
+ * Create an endpoint for batch prediction jobs (only Vertex AI supports them).
+ * @param {Predictor} predictor
+ * @returns {IBatchEndpoint}
+ */
+function createBatchEndpoint(predictor: Predictor): IBatchEndpoint {
+  if (!(predictor.api instanceof GeminiVertexApi)) {
+    throw new Error(
+      `Batch generation is supported only for Vertex AI (${SETTINGS.LLM_Provider} = ${ModelProvider.Vertex})`
+    );
+  }
+  return new VertexBatchEndpoint(predictor.api, predictor.configReader);
+}
+
+/**
+ * Get a key of a batch request. Requests are keyed by adgroups (not rows)
+ * as the sheet can be changed while a job is running.
+ * @param {AdGroup} adGroup
+ * @param {PredictionStage} stage
+ * @param [Boolean] shorten - a request for rewriting too long texts
+ * @returns {String}
+ */
+function getBatchKey(
+  adGroup: AdGroup,
+  stage: PredictionStage,
+  shorten?: boolean
+) {
+  return `${adGroup.adgroup_id}-${stage}` + (shorten ? '-shorten' : '');
+}
+
+/**
+ * Read rows of a keywords sheet to generate ads for in batch mode
+ * (all rows except ignored ones and ones without keywords).
+ * @param sheet
+ * @param {Predictor} defaultPredictor - a predictor for adgroups without
+ *  configuration overrides
+ * @returns sheet's headers, values of all data rows and rows to process
+ */
+function loadBatchRows(
+  sheet: GoogleAppsScript.Spreadsheet.Sheet,
+  defaultPredictor: Predictor
+): { columns: any[]; values: any[][]; rows: BatchRow[] } {
+  const columns = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0];
+  if (!columns.includes('headlines')) {
+    throw new Error('Could not fild a column with title "headlines"');
+  }
+  if (!columns.includes('descriptions')) {
+    throw new Error('Could not fild a column with title "descriptions"');
+  }
+  for (const name of ['path1', 'path2', 'status', 'issues', 'keywords_hash']) {
+    ensureColumn(sheet, columns, name);
+  }
+  const lastRow = sheet.getLastRow();
+  const values =
+    lastRow > 1
+      ? sheet.getRange(2, 1, lastRow - 1, columns.length).getValues()
+      : [];
+  const overrides = loadConfigOverrides();
+  const predictors: Record<string, Predictor> = {};
+  // settings of a job's endpoint can't be overridden for adgroups
+  const endpointSettings = [
+    SETTINGS.LLM_Provider,
+    SETTINGS.LLM_Name,
+    SETTINGS.LLM_Uri,
+    SETTINGS.CLOUD_PROJECT_ID,
+    SETTINGS.CLOUD_PROJECT_REGION,
+    SETTINGS.GENERATION_batch_storage,
+  ];
+  const adGroupIds = new Set<string>();
+  const rows: BatchRow[] = [];
+  for (const row of values) {
+    const adGroup = createAdGroupFromRow(row, columns);
+    if (adGroup.ignore || !adGroup.keywords) continue;
+    if (adGroupIds.has(String(adGroup.adgroup_id))) {
+      throw new Error(
+        `Adgroup ${adGroup.adgroup_id} occurs in several rows, batch generation requires unique adgroups`
+      );
+    }
+    adGroupIds.add(String(adGroup.adgroup_id));
+    const predictor = getAdGroupPredictor(
+      defaultPredictor,
+      overrides,
+      adGroup,
+      predictors
+    );
+    for (const name of endpointSettings) {
+      if (
+        predictor.configReader.getValue(name) !==
+        defaultPredictor.configReader.getValue(name)
+      ) {
+        throw new Error(
+          `Batch generation doesn't support overriding ${name} (adgroup ${adGroup.adgroup_id}), please remove the override or use row-by-row generation`
+        );
+      }
+    }
+    rows.push({ row, adGroup, predictor });
+  }
+  return { columns, values, rows };
+}
+
+/**
+ * Create requests of a batch generation's phase:
+ *  - headlines - headlines and paths,
+ *  - descriptions - descriptions for rows with generated headlines,
+ *  - shorten - rewriting of too long/short headlines, descriptions and paths
+ *    (the same rewrite prompts as in the second pass of row-by-row generation).
+ * @param {BatchRow[]} rows
+ * @param {Array} columns - sheet's headers
+ * @param {BatchPhase} phase
+ * @returns {BatchRequest[]}
+ */
+function createBatchRequests(
+  rows: BatchRow[],
+  columns: any[],
+  phase: BatchPhase
+): BatchRequest[] {
+  const COL_Headlines = columns.indexOf('headlines') + 1;
+  const COL_Descriptions = columns.indexOf('descriptions') + 1;
+  const COL_Path1 = columns.indexOf('path1') + 1;
+  const COL_Path2 = columns.indexOf('path2') + 1;
+  const requests: BatchRequest[] = [];
+  for (const { row, adGroup, predictor } of rows) {
+    const add = (stage: PredictionStage, prompt: string, shorten?: boolean) => {
+      const responseSchema = Predictor.RESPONSE_SCHEMAS[stage];
+      requests.push({
+        key: getBatchKey(adGroup, stage, shorten),
+        prompt,
+        responseSchema,
+        // the adgroup's model API takes into account overridden model params
+        payload:
+          predictor.api instanceof GeminiVertexApi
+            ? predictor.api.createPayload(
+                [{ role: 'user', parts: [{ text: prompt }] }],
+                1,
+                { responseSchema }
+              )
+            : undefined,
+      });
+    };
+    if (phase === 'headlines') {
+      add('headlines', predictor.getHeadlinesPrompt(adGroup));
+      add('paths', predictor.getPathsPrompt(adGroup));
+    } else if (phase === 'descriptions') {
+      adGroup.all_headlines = splitOutputText(row[COL_Headlines - 1], true);
+      if (!adGroup.all_headlines.length) continue;
+      adGroup.headlines = splitOutputText(row[COL_Headlines - 1]).join('\n');
+      add('descriptions', predictor.getDescriptionsPrompt(adGroup));
+    } else {
+      const headlines = row[COL_Headlines - 1];
+      const longHeadlines = getInvalidOutputTexts(headlines);
+      if (
+        longHeadlines.length &&
+        splitOutputText(headlines).length < Config.generation.headlinesCount
+      ) {
+        add(
+          'headlines',
+          predictor.getHeadlines2ndPrompt(adGroup, longHeadlines),
+          true
+        );
+      }
+      const descriptions = row[COL_Descriptions - 1];
+      const longDescriptions = getInvalidOutputTexts(descriptions);
+      if (
+        longDescriptions.length &&
+        splitOutputText(descriptions).length <
+          Config.generation.descriptionsCount
+      ) {
+        add(
+          'descriptions',
+          predictor.getDescriptions2ndPrompt(adGroup, longDescriptions),
+          true
+        );
+      }
+      const longPaths = [row[COL_Path1 - 1], row[COL_Path2 - 1]].filter(
+        path =>
+          path && !isAdsLengthValid(path, 1, Config.ads.rsa_path_max_length)
+      );
+      if (longPaths.length) {
+        add('paths', predictor.getPaths2ndPrompt(adGroup, longPaths), true);
+      }
+    }
+  }
+  return requests;
+}
+
+/**
+ * Write results of a batch generation's phase into rows' values.
+ * Replies go through the same parsing, normalization, deduplication and
+ * length validation as in row-by-row generation, texts with invalid length
+ * are kept after the "longer than" marker to be rewritten by the next phase.
+ * @param {BatchRow[]} rows
+ * @param {Array} columns - sheet's headers
+ * @param {BatchPhase} phase
+ * @param {Object} results - job's results by keys
+ * @param {String} modelName
+ * @param {UsageTracker} usage
+ */
+function applyBatchResults(
+  rows: BatchRow[],
+  columns: any[],
+  phase: BatchPhase,
+  results: Record<string, BatchResult>,
+  modelName: string,
+  usage: UsageTracker
+) {
+  const COL_Headlines = columns.indexOf('headlines') + 1;
+  const COL_Descriptions = columns.indexOf('descriptions') + 1;
+  const COL_Path1 = columns.indexOf('path1') + 1;
+  const COL_Path2 = columns.indexOf('path2') + 1;
+  const COL_Status = columns.indexOf('status') + 1;
+  const COL_KeywordsHash = columns.indexOf('keywords_hash') + 1;
+  const H_MIN = Config.ads.rsa_headline_min_length;
+  const H_MAX = Config.ads.rsa_headline_max_length;
+  const D_MIN = Config.ads.rsa_description_min_length;
+  const D_MAX = Config.ads.rsa_description_max_length;
+  const P_MAX = Config.ads.rsa_path_max_length;
+  for (const { row, adGroup, predictor } of rows) {
+    predictor.clearHistory();
+    usage.adgroupId = String(adGroup.adgroup_id);
+    const getTexts = (stage: PredictionStage, shorten?: boolean) => {
+      const result = results[getBatchKey(adGroup, stage, shorten)];
+      if (!result) return undefined;
+      usage.add(stage, modelName, result.usage);
+      if (result.error) {
+        Logger.log(
+          `WARNING: batch request ${result.key} has failed: ${result.error}`
+        );
+        predictor.status.push(
+          `${stage}: batch request failed (${result.error})`
+        );
+        return undefined;
+      }
+      return predictor.parseTexts(result.reply || '', stage);
+    };
+    const getPaths = (shorten?: boolean) =>
+      getTexts('paths', shorten)
+        ?.map(predictor._normalizePath)
+        .filter(path => !!path);
+    const isValidPath = (path: string) => isAdsLengthValid(path, 1, P_MAX);
+
+    if (phase === 'headlines') {
+      const headlines = getTexts('headlines');
+      if (headlines) {
+        const texts = predictor._removeDuplicates(
+          headlines,
+          adGroup.existing_headlines,
+          'headlines'
+        );
+        row[COL_Headlines - 1] = formatOutputText(
+          texts.filter(text => isAdsLengthValid(text, H_MIN, H_MAX)),
+          texts.filter(text => !isAdsLengthValid(text, H_MIN, H_MAX)),
+          'Headlines',
+          H_MAX
+        );
+      }
+      const paths = getPaths();
+      if (paths) {
+        // invalid paths are kept to be rewritten by the shortening phase
+        const sorted = [
+          ...paths.filter(isValidPath),
+          ...paths.filter(path => !isValidPath(path)),
+        ];
+        row[COL_Path1 - 1] = sorted[0] || '';
+        row[COL_Path2 - 1] = sorted[1] || '';
+      }
+      row[COL_Status - 1] = predictor.status.join('\n');
+      continue;
+    }
+    if (phase === 'descriptions') {
+      const descriptions = getTexts('descriptions');
+      if (descriptions) {
+        const texts = predictor._removeDuplicates(
+          descriptions,
+          adGroup.existing_descriptions,
+          'descriptions'
+        );
+        row[COL_Descriptions - 1] = formatOutputText(
+          texts.filter(text => isAdsLengthValid(text, D_MIN, D_MAX)),
+          texts.filter(text => !isAdsLengthValid(text, D_MIN, D_MAX)),
+          'Descriptions',
+          D_MAX
+        );
+        row[COL_KeywordsHash - 1] = getKeywordsHash(adGroup.keywords);
+      }
+    } else {
+      row[COL_Headlines - 1] = mergeRewrittenTexts(
+        predictor,
+        row[COL_Headlines - 1],
+        getTexts('headlines', true),
+        adGroup.existing_headlines,
+        'headlines'
+      );
+      row[COL_Descriptions - 1] = mergeRewrittenTexts(
+        predictor,
+        row[COL_Descriptions - 1],
+        getTexts('descriptions', true),
+        adGroup.existing_descriptions,
+        'descriptions'
+      );
+      // paths still invalid after rewriting are dropped
+      const paths = [
+        ...[row[COL_Path1 - 1], row[COL_Path2 - 1]].filter(
+          path => path && isValidPath(path)
+        ),
+        ...(getPaths(true) || []).filter(isValidPath),
+      ];
+      row[COL_Path1 - 1] = paths[0] || '';
+      row[COL_Path2 - 1] = paths[1] || '';
+    }
+    if (predictor.status.length) {
+      row[COL_Status - 1] = [row[COL_Status - 1], ...predictor.status]
+        .filter(line => !!line)
+        .join('\n');
+    }
+  }
+}
+
+/**
+ * Get texts with invalid length (after the "longer than" marker) of
+ * generated output.
+ * @param {String} text - headlines or descriptions cell value
+ * @returns {String[]}
+ */
+function getInvalidOutputTexts(text: string | undefined) {
+  return splitOutputText(text, true).slice(splitOutputText(text).length);
+}
+
+/**
+ * Format generated texts as a cell value: valid texts and then texts with
+ * invalid length after the "longer than" marker.
+ * @param {String[]} valid
+ * @param {String[]} invalid
+ * @param {String} title - 'Headlines' or 'Descriptions'
+ * @param {Number} max - max length of texts
+ * @returns {String}
+ */
+function formatOutputText(
+  valid: string[],
+  invalid: string[],
+  title: string,
+  max: number
+) {
+  const lines = [...valid];
+  if (invalid.length) {
+    lines.push(`\n${title} longer than ${max}:`);
+    lines.push(...invalid);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Merge rewritten texts into generated output: valid ones are added and
+ * still invalid ones replace the previous invalid texts.
+ * @param {Predictor} predictor
+ * @param {String} text - headlines or descriptions cell value
+ * @param [String[]] rewritten - texts from a rewrite reply
+ * @param [String[]] existing - texts of existing ads
+ * @param {PredictionStage} stage - 'headlines' or 'descriptions'
+ * @returns {String} new cell value
+ */
+function mergeRewrittenTexts(
+  predictor: Predictor,
+  text: string,
+  rewritten: string[] | undefined,
+  existing: string[] | undefined,
+  stage: PredictionStage
+) {
+  if (!rewritten) return text;
+  const [MIN, MAX] =
+    stage === 'headlines'
+      ? [Config.ads.rsa_headline_min_length, Config.ads.rsa_headline_max_length]
+      : [
+          Config.ads.rsa_description_min_length,
+          Config.ads.rsa_description_max_length,
+        ];
+  const valid = splitOutputText(text);
+  const reply = predictor._removeDuplicates(
+    rewritten,
+    [...(existing || []), ...valid],
+    stage
+  );
+  return formatOutputText(
+    [...valid, ...reply.filter(line => isAdsLengthValid(line, MIN, MAX))],
+    reply.filter(line => !isAdsLengthValid(line, MIN, MAX)),
+    stage === 'headlines' ? 'Headlines' : 'Descriptions',
+    MAX
+  );
+}
+
+/**
+ * Submit a job of a batch generation's phase and schedule polling its status.
+ * @param {BatchGeneration} run
+ * @param {IBatchEndpoint} endpoint
+ * @param {BatchRequest[]} requests - the phase's requests (not empty)
+ * @param {BatchPhase} phase
+ */
+function submitBatchPhase(
+  run: BatchGeneration,
+  endpoint: IBatchEndpoint,
+  requests: BatchRequest[],
+  phase: BatchPhase
+) {
+  run.job = endpoint.submit(`rsa-${run.runId}-${phase}`, requests);
+  run.phase = phase;
+  run.requests = requests.length;
+  run.polls = 0;
+  run.written = false;
+  saveBatchGeneration(run);
+  scheduleContinuation(Config.batch.pollHandler, Config.batch.pollInterval);
+  Logger.log(
+    `Submitted batch job ${run.job.name} (${phase}) with ${requests.length} requests`
+  );
+}
+
+/**
+ * Root function for calling from the UI menu.
+ * Generates headlines/descriptions for all rows of the active sheet via
+ * Vertex AI batch prediction (for accounts too large for row-by-row
+ * generation): jobs for headlines and paths, descriptions, and rewriting of
+ * too long texts are submitted in turn, their status is checked by
+ * time-based triggers.
+ * NOTE: triggers call a global function of the client project, so it should
+ * define a function (Config.batch.pollHandler) calling
+ * generate_rsa_batch_poll of the library.
+ */
+export function generate_rsa_batch() {
+  const ui = SpreadsheetApp.getUi();
+  const current = loadBatchGeneration();
+  if (current && !current.failed) {
+    ui.alert(
+      `There is a batch generation in progress:\n\n${formatBatchGeneration(
+        current
+      )}\n\nPlease wait for it to complete or cancel it first.`
+    );
+    return;
+  }
+  const sheet = SpreadsheetApp.getActiveSheet();
+  if (!isKeywordsSheet(sheet)) {
+    ui.alert(
+      'Please switch to a sheet with keywords (it should be titled "keywords")'
+    );
+    return;
+  }
+  const predictor = getPredictor();
+  if (!predictor) return;
+
+  try {
+    const mode = getGenerationMode();
+    if (mode !== GenerationMode.Overwrite) {
+      throw new Error(
+        `Batch generation replaces output of all rows, so it doesn't support the "${mode}" generation mode (${SETTINGS.GENERATION_mode}). Please set it to "${GenerationMode.Overwrite}" or use row-by-row generation.`
+      );
+    }
+    const endpoint = createBatchEndpoint(predictor);
+    const { columns, rows } = loadBatchRows(sheet, predictor);
+    const requests = createBatchRequests(rows, columns, 'headlines');
+    if (!requests.length) {
+      ui.alert('There are no rows to generate ads for');
+      return;
+    }
+    const run = createBatchGeneration(sheet.getName());
+    submitBatchPhase(run, endpoint, requests, 'headlines');
+    ui.alert(
+      `A batch job for ${
+        rows.length
+      } adgroups has been submitted, its status is checked every ${
+        Config.batch.pollInterval / 60000
+      } minutes.\n\n${formatBatchGeneration(run)}`
+    );
+  } catch (e) {
+    ui.alert((<Error>e).message);
+  }
+}
+
+/**
+ * Check the status of a batch generation's job (called by a time-based
+ * trigger). Results of a completed job are written to the sheet and the next
+ * phase's job is submitted.
+ */
+export function generate_rsa_batch_poll() {
+  deleteContinuations(Config.batch.pollHandler);
+  const run = loadBatchGeneration();
+  if (!run) {
+    Logger.log('There is no batch generation to continue');
+    return;
+  }
+  const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(
+    run.sheetName
+  );
+  if (!sheet) {
+    Logger.log(
+      `Sheet "${run.sheetName}" of batch generation ${run.runId} not found, canceling the generation`
+    );
+    clearBatchGeneration();
+    return;
+  }
+  // triggers have no UI, so errors are only logged and recorded in the state
+  try {
+    const predictor = createPredictor(new ConfigSheetReader());
+    continueBatchGeneration(
+      run,
+      sheet,
+      predictor,
+      createBatchEndpoint(predictor)
+    );
+  } catch (e) {
+    handleBatchGenerationError(run, e);
+  }
+}
+
+/**
+ * Record an error of checking a batch generation. The check is repeated by
+ * a new trigger until the max number of consecutive failures is reached,
+ * then the generation is marked as failed.
+ * @param {BatchGeneration} run
+ * @param e - error
+ */
+function handleBatchGenerationError(run: BatchGeneration, e: unknown) {
+  const current = loadBatchGeneration();
+  if (!current || current.runId !== run.runId) return;
+  current.failures = (current.failures || 0) + 1;
+  current.error = String(e);
+  Logger.log(
+    `ERROR: check of batch generation ${run.runId} failed (${current.failures} of ${Config.batch.maxFailures}): ${e}`
+  );
+  if (current.failures >= Config.batch.maxFailures) {
+    current.failed = true;
+  }
+  saveBatchGeneration(current);
+  if (!current.failed) {
+    scheduleContinuation(Config.batch.pollHandler, Config.batch.pollInterval);
+  }
+}
+
+function continueBatchGeneration(
+  run: BatchGeneration,
+  sheet: GoogleAppsScript.Spreadsheet.Sheet,
+  predictor: Predictor,
+  endpoint: IBatchEndpoint
+) {
+  run.polls += 1;
+  const res = pollBatchJob(endpoint, run.job.name);
+  run.job = res.job;
+  run.failures = 0;
+  run.error = undefined;
+  saveBatchGeneration(run);
+  if (
+    res.job.state === BatchJobState.Failed ||
+    res.job.state === BatchJobState.Cancelled
+  ) {
+    Logger.log(
+      `Batch job ${res.job.name} (${run.phase}) is ${res.job.state}${
+        res.job.error ? ': ' + res.job.error : ''
+      }, batch generation ${run.runId} is stopped`
+    );
+    // the state is kept for users to see the error, a new generation replaces it
+    run.failed = true;
+    run.error = `job is ${res.job.state}${
+      res.job.error ? ': ' + res.job.error : ''
+    }`;
+    saveBatchGeneration(run);
+    return;
+  }
+  if (!res.results) {
+    scheduleContinuation(Config.batch.pollHandler, Config.batch.pollInterval);
+    return;
+  }
+
+  Logger.log(
+    `Batch job ${res.job.name} (${run.phase}) completed with ${
+      Object.keys(res.results).length
+    } results`
+  );
+  const { columns, values, rows } = loadBatchRows(sheet, predictor);
+  const next: BatchPhase | undefined =
+    run.phase === 'headlines'
+      ? 'descriptions'
+      : run.phase === 'descriptions'
+        ? 'shorten'
+        : undefined;
+  if (run.written) {
+    // results were written by a previous check which failed to submit
+    // the next phase's job
+    Logger.log(`Results of batch job ${res.job.name} are already written`);
+    finishBatchPhase(run, endpoint, rows, columns, next);
+    return;
+  }
+  const usage = new UsageTracker();
+  applyBatchResults(
+    rows,
+    columns,
+    run.phase,
+    res.results,
+    endpoint.modelName,
+    usage
+  );
+  const nextRequests = next ? createBatchRequests(rows, columns, next) : [];
+  if (!nextRequests.length) {
+    const COL_Headlines = columns.indexOf('headlines') + 1;
+    const COL_Descriptions = columns.indexOf('descriptions') + 1;
+    const COL_Issues = columns.indexOf('issues') + 1;
+    for (const { row, predictor } of rows) {
+      const trademarks = parseTrademarks(
+        predictor.configReader.getValue(SETTINGS.LINTER_trademarks)
+      );
+      row[COL_Issues - 1] = lintAdTexts(
+        [
+          ...splitOutputText(row[COL_Headlines - 1], true),
+          ...splitOutputText(row[COL_Descriptions - 1], true),
+        ],
+        trademarks
+      ).join('\n');
+    }
+  }
+  // output columns are written at once as sheets can have tens of thousands rows,
+  // the current job is kept in the state until they are written
+  if (values.length) {
+    for (const name of [
+      'headlines',
+      'descriptions',
+      'path1',
+      'path2',
+      'status',
+      'issues',
+      'keywords_hash',
+    ]) {
+      const col = columns.indexOf(name) + 1;
+      sheet
+        .getRange(2, col, values.length, 1)
+        .setValues(values.map(row => [row[col - 1]]));
+    }
+  }
+  // usage is recorded once, after the results are written
+  completeRun(usage);
+  run.written = true;
+  saveBatchGeneration(run);
+  finishBatchPhase(run, endpoint, rows, columns, next, nextRequests);
+}
+
+/**
+ * Submit the next phase's job of a batch generation (after results of
+ * the current one are written) or complete the generation if there are
+ * no requests for it.
+ * @param {BatchGeneration} run
+ * @param {IBatchEndpoint} endpoint
+ * @param {BatchRow[]} rows
+ * @param {Array} columns - sheet's headers
+ * @param [BatchPhase] next - the next phase (if any)
+ * @param [BatchRequest[]] requests - the next phase's requests
+ *  (created from rows if omitted)
+ */
+function finishBatchPhase(
+  run: BatchGeneration,
+  endpoint: IBatchEndpoint,
+  rows: BatchRow[],
+  columns: any[],
+  next: BatchPhase | undefined,
+  requests?: BatchRequest[]
+) {
+  requests = requests || (next ? createBatchRequests(rows, columns, next) : []);
+  if (next && requests.length) {
+    submitBatchPhase(run, endpoint, requests, next);
+    return;
+  }
+  Logger.log(`Batch generation ${run.runId} completed`);
+  clearBatchGeneration();
+}
+
+/**
+ * Check the status of a batch generation now (instead of waiting for
+ * the trigger) and show it.
+ */
+export function check_batch_generation() {
+  const ui = SpreadsheetApp.getUi();
+  const run = loadBatchGeneration();
+  if (!run) {
+    ui.alert('There is no batch generation');
+    return;
+  }
+  if (!run.failed) {
+    generate_rsa_batch_poll();
+  }
+  const current = loadBatchGeneration();
+  ui.alert(
+    current
+      ? formatBatchGeneration(current)
+      : `Batch generation ${run.runId} is finished (see the execution log for details)`
+  );
+}
+
+export function cancel_batch_generation() {
+  const ui = SpreadsheetApp.getUi();
+  const run = loadBatchGeneration();
+  if (!run) {
+    ui.alert('There is no batch generation');
+    return;
+  }
+  const res = ui.alert(
+    `Cancel the batch generation?\n\n${formatBatchGeneration(run)}`,
+    ui.ButtonSet.YES_NO
+  );
+  if (res !== ui.Button.YES) return;
+  deleteContinuations(Config.batch.pollHandler);
+  const predictor = getPredictor();
+  if (predictor && run.job.name) {
+    try {
+      createBatchEndpoint(predictor).cancel(run.job.name);
+    } catch (e) {
+      Logger.log(`WARNING: failed to cancel batch job ${run.job.name}: ${e}`);
+    }
+  }
+  clearBatchGeneration();
+}
+
+/**
+ * Find a column by its title, the column is added at the end if it doesn't exist.
+ * @param sheet
+ * @param {Array} columns - sheet's headers (updated in case of adding a column)
+ * @param {String} name - column title
+ * @returns {Number} column index (1-based)
+ */
+function ensureColumn(
+  sheet: GoogleAppsScript.Spreadsheet.Sheet,
+  columns: any[],
+  name: string
+) {
+  let col = columns.indexOf(name) + 1;
+  if (col === 0) {
+    columns.push(name);
+    col = columns.length;
+    sheet.getRange(1, col).setValue(name);
+  }
+  return col;
+}
+
+// a line separating too long/short texts in generated output
+const LONG_TEXTS_MARKER_RE = /^(Headlines|Descriptions) longer than/;
+
+/**
+ * Split generated output (a cell value) into texts.
+ * @param {String} text - headlines or descriptions cell value
+ * @param [Boolean] includeLong - include texts after the "longer than" marker
+ * @returns {String[]}
+ */
+function splitOutputText(
+  text: string | undefined,
+  includeLong?: boolean
+): string[] {
+  const lines = (text || '')
+    .toString()
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => !!line);
+  const markerIdx = lines.findIndex(line => LONG_TEXTS_MARKER_RE.test(line));
+  if (markerIdx === -1) return lines;
+  if (includeLong) {
+    return lines.filter((line, idx) => idx !== markerIdx);
+  }
+  return lines.slice(0, markerIdx);
+}
+
+/**
+ * Append newly generated output to the previous one keeping texts
+ * with invalid length after the "longer than" marker.
+ * @param {String} previousText - previous cell value
+ * @param {String} newText - new cell value
+ * @returns {String}
+ */
+export function appendOutputText(previousText: string, newText: string) {
+  const split = (text: string) => {
+    const lines = splitOutputText(text, true);
+    const valid = splitOutputText(text);
+    return {
+      valid,
+      long: lines.slice(valid.length),
+      marker: (text || '')
+        .toString()
+        .split('\n')
+        .find(line => LONG_TEXTS_MARKER_RE.test(line.trim())),
+    };
+  };
+  const previous = split(previousText);
+  const next = split(newText);
+  const lines = [...previous.valid, ...next.valid];
+  const long = [...previous.long, ...next.long];
+  if (long.length) {
+    lines.push('\n' + (next.marker || previous.marker)!.trim());
+    lines.push(...long);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Calculate a hash of adgroup's keywords to detect their changes.
+ * @param {String} keywords
+ * @returns {String}
+ */
+function getKeywordsHash(keywords: string | undefined) {
+  return getHash((keywords || '').toString());
+}
+
+/**
+ * Get a min similarity of texts to treat them as near-duplicates.
+ * @param {IConfigReader} configReader
+ * @returns {Number}
+ */
+function getSimilarityThreshold(configReader: IConfigReader): number {
+  const value = parseFloat(
+    configReader.getValue(SETTINGS.DEDUPE_similarity_threshold)
+  );
+  return isNaN(value) ? Config.generation.similarityThreshold : value;
+}
+
+/**
+ * Split a multiline cell value into non empty lines.
+ * @param {Array} row - sheet row's values
+ * @param {Number} col - column index (1-based), 0 if the column doesn't exist
+ * @returns {String[]}
+ */
+function splitCellText(row: any[], col: number): string[] {
+  if (!col || !row[col - 1]) return [];
+  return row[col - 1]
+    .toString()
+    .split('\n')
+    .map((line: string) => line.trim())
+    .filter((line: string) => !!line);
+}
+
+function getHeadlinesForAdgroup(predictor: Predictor, adGroup: AdGroup) {
+  const genRes = predictor.getHeadlines(adGroup);
+
+  adGroup.headlines = genRes.headlines.join('\n');
+  adGroup.all_headlines = [
+    ...genRes.headlines,
+    ...(genRes.longHeadlines || []),
   ];
   const allHeadlines = [];
   let allHeadlinesText = '';
@@ -447,14 +2345,25 @@ export function generate_rsa_current_row() {
   const ui = SpreadsheetApp.getUi();
   const row = SpreadsheetApp.getCurrentCell().getRowIndex();
   const res = ui.prompt(
-    `Run generation for the row with index ${row} (presess Yes). Or enter either another row index or a range (start:end)`,
+    `Run generation for the row with index ${row} (presess Yes). Or enter either another row index or a range (start:end).
+Optionally add a mode after a space (${Object.values(GenerationMode).join(
+      ', '
+    )}), by default it's taken from the settings.`,
     ui.ButtonSet.YES_NO
   );
   const range: RowsRange = {};
   if (res.getSelectedButton() === ui.Button.YES) {
-    const reply = res.getResponseText();
+    const parts = res.getResponseText().trim().split(/\s+/);
+    let reply = parts[0];
+    if (parts.length > 1) {
+      range.mode = parts[1];
+    } else if (reply && !/^[\d:]+$/.test(reply)) {
+      // only a mode
+      range.mode = reply;
+      reply = '';
+    }
     if (reply) {
-      if (reply.indexOf(':')) {
+      if (reply.includes(':')) {
         const parts = reply.split(':');
         range.startRow = parseInt(parts[0]);
         range.endRow = parseInt(parts[1]);
@@ -468,12 +2377,42 @@ export function generate_rsa_current_row() {
   }
 }
 
+/**
+ * Create the leading cells (from Account to Path 2) of an Ads Editor row
+ * for a row of a keywords sheet.
+ * @param {Array} rowSrc - row's values
+ * @param {Array} columnsSrc - sheet's headers
+ * @returns {Array}
+ */
+export function createAdsEditorRow(rowSrc: any[], columnsSrc: any[]) {
+  const COL_Path1 = columnsSrc.indexOf('path1') + 1;
+  const COL_Path2 = columnsSrc.indexOf('path2') + 1;
+  const customer_id = rowSrc[0];
+  const customer_name = rowSrc[1];
+  const campaign_name = rowSrc[3];
+  const adgroup_id = rowSrc[4];
+  const adgroup_name = rowSrc[5];
+  // 6 - keywords
+  const url = rowSrc[7];
+  return [
+    customer_name,
+    customer_id,
+    campaign_name,
+    adgroup_name,
+    adgroup_id,
+    url, // Final URL
+    COL_Path1 ? rowSrc[COL_Path1 - 1] : '', // Path 1
+    COL_Path2 ? rowSrc[COL_Path2 - 1] : '', // Path 2
+  ];
+}
+
 export function generate_ads_editor() {
   const columns = [
     'Account',
     'Customer ID',
     'Campaign',
     'Ad Group',
+    'Ad group ID',
     'Final URL',
     'Path 1',
     'Path 2',
@@ -524,9 +2463,13 @@ export function generate_ads_editor() {
     );
     return;
   }
+  const lastCol = sheetSrc.getLastColumn();
   const valuesSrc = sheetSrc
-    .getRange(2, 1, sheetSrc.getLastRow() - 1, 11)
+    .getRange(2, 1, sheetSrc.getLastRow() - 1, lastCol)
     .getValues();
+  const columnsSrc = sheetSrc.getRange(1, 1, 1, lastCol).getValues()[0];
+  const COL_Headlines = columnsSrc.indexOf('headlines') + 1;
+  const COL_Descriptions = columnsSrc.indexOf('descriptions') + 1;
 
   const addLongHeadlines =
     ConfigReader.getValue(SETTINGS.ADSEDITOR_add_long_headlines)
@@ -536,6 +2479,13 @@ export function generate_ads_editor() {
     ConfigReader.getValue(SETTINGS.ADSEDITOR_add_long_descriptions)
       .toString()
       .toLocaleUpperCase() === 'TRUE';
+  const excludeFlagged =
+    ConfigReader.getValue(SETTINGS.ADSEDITOR_exclude_flagged)
+      .toString()
+      .toLocaleUpperCase() === 'TRUE';
+  const trademarks = parseTrademarks(
+    ConfigReader.getValue(SETTINGS.LINTER_trademarks)
+  );
   const addGenericHeadlines = ConfigReader.getValue(
     SETTINGS.ADSEDITOR_add_generic_headlines
   );
@@ -556,31 +2506,27 @@ export function generate_ads_editor() {
       .getValues()
       .map(row => row[0]);
   }
+  let pinningRules: PinningRule[];
+  try {
+    pinningRules = parsePinningRules(
+      ConfigReader.getValue(SETTINGS.ADSEDITOR_pinning_rules)
+    );
+  } catch (e) {
+    SpreadsheetApp.getUi().alert(`${e}`);
+    return;
+  }
+  const customerName = ConfigReader.getValue(SETTINGS.CUSTOMER_NAME);
+  const similarityThreshold = getSimilarityThreshold(ConfigReader);
   const rows = [];
   for (let i = 0; i < valuesSrc.length; i++) {
     const rowSrc = valuesSrc[i];
-    const customer_id = rowSrc[0];
-    //const customer_name = rowSrc[1];
-    const campaign_id = rowSrc[2];
-    const campaign_name = rowSrc[3];
     const adgroup_id = rowSrc[4];
-    const adgroup_name = rowSrc[5];
-    // 6 - keywords
-    const url = rowSrc[7];
     const ignore = rowSrc[8];
-    const headlines_src = rowSrc[9].split('\n');
-    const descriptions_src = rowSrc[10].split('\n');
+    const headlines_src = splitCellText(rowSrc, COL_Headlines);
+    const descriptions_src = splitCellText(rowSrc, COL_Descriptions);
 
     if (ignore) continue;
-    const row = [
-      customer_id,
-      campaign_id,
-      campaign_name,
-      adgroup_name,
-      url, // Final URL
-      '', // Path 1
-      '', // Path 2
-    ];
+    const row = createAdsEditorRow(rowSrc, columnsSrc);
     rows.push(row);
     // add headlines
     const headlinesDst = [];
@@ -588,21 +2534,40 @@ export function generate_ads_editor() {
       const hl = headlines_src[j].trim();
       if (!hl) continue;
       if (hl.includes('Headlines longer')) continue;
-      if (hl.length > Config.ads.rsa_headline_max_length && !addLongHeadlines)
+      if (
+        getAdsTextLength(hl) > Config.ads.rsa_headline_max_length &&
+        !addLongHeadlines
+      )
         continue;
+      if (excludeFlagged && lintAdText(hl, trademarks).length) continue;
+      if (findSimilar(hl, headlinesDst, similarityThreshold)) continue;
       headlinesDst.push(hl);
       if (headlinesDst.length === 15) break;
     }
+    const headlinesGeneratedCount = headlinesDst.length;
     if (headlinesDst.length < 15 && genericHeadlines) {
-      const add = 15 - headlinesDst.length;
-      for (let j = 0; j < add; j++) {
-        headlinesDst.push(genericHeadlines[j]);
+      for (const hl of genericHeadlines) {
+        if (!hl || findSimilar(hl, headlinesDst, similarityThreshold)) {
+          continue;
+        }
+        headlinesDst.push(hl);
+        if (headlinesDst.length === 15) break;
       }
     }
+    const headlinesPinning = applyPinningRules(
+      headlinesDst.map((text, j) => ({
+        text,
+        generic: j >= headlinesGeneratedCount,
+      })),
+      pinningRules,
+      'headline',
+      customerName
+    );
+    logPinningWarnings(adgroup_id, headlinesPinning.warnings);
     // add final headlines to the row
     for (let j = 0; j < headlinesDst.length; j++) {
       row.push(headlinesDst[j]);
-      row.push('');
+      row.push(headlinesPinning.positions[j] || '');
     }
     for (let j = headlinesDst.length; j < 15; j++) {
       row.push('');
@@ -616,23 +2581,39 @@ export function generate_ads_editor() {
       if (!desc) continue;
       if (desc.includes('Descriptions longer')) continue;
       if (
-        desc.length > Config.ads.rsa_description_max_length &&
+        getAdsTextLength(desc) > Config.ads.rsa_description_max_length &&
         !addLongDescriptions
       )
         continue;
+      if (excludeFlagged && lintAdText(desc, trademarks).length) continue;
+      if (findSimilar(desc, descriptionsDst, similarityThreshold)) continue;
       descriptionsDst.push(desc);
       if (descriptionsDst.length === 4) break;
     }
+    const descriptionsGeneratedCount = descriptionsDst.length;
     if (descriptionsDst.length < 4 && genericDescriptions) {
-      const add = 4 - descriptionsDst.length;
-      for (let j = 0; j < add; j++) {
-        descriptionsDst.push(genericDescriptions[j]);
+      for (const desc of genericDescriptions) {
+        if (!desc || findSimilar(desc, descriptionsDst, similarityThreshold)) {
+          continue;
+        }
+        descriptionsDst.push(desc);
+        if (descriptionsDst.length === 4) break;
       }
     }
+    const descriptionsPinning = applyPinningRules(
+      descriptionsDst.map((text, j) => ({
+        text,
+        generic: j >= descriptionsGeneratedCount,
+      })),
+      pinningRules,
+      'description',
+      customerName
+    );
+    logPinningWarnings(adgroup_id, descriptionsPinning.warnings);
     // add final descriptions to the row
     for (let j = 0; j < descriptionsDst.length; j++) {
       row.push(descriptionsDst[j]);
-      row.push('');
+      row.push(descriptionsPinning.positions[j] || '');
     }
     for (let j = descriptionsDst.length; j < 4; j++) {
       row.push('');
@@ -655,6 +2636,248 @@ export function generate_ads_editor() {
   sheetDst.getRange(2, 1, rows.length, columns.length).setValues(rows);
 }
 
+/**
+ * Root function for calling from the UI menu.
+ * Analyzes generated headlines/descriptions of all rows of the active
+ * keywords sheet (see analyzeAdGroup) and writes the results to
+ * the "Quality report" sheet (it's recreated on each call).
+ */
+export function quality_report() {
+  const sheetSrc = SpreadsheetApp.getActiveSheet();
+  if (!isKeywordsSheet(sheetSrc)) {
+    SpreadsheetApp.getUi().alert(
+      'Please switch to a sheet with keywords (it should be titled "keywords")'
+    );
+    return;
+  }
+  if (sheetSrc.getLastRow() < 2) {
+    SpreadsheetApp.getUi().alert('The sheet has no ad groups');
+    return;
+  }
+  const lastCol = sheetSrc.getLastColumn();
+  const valuesSrc = sheetSrc
+    .getRange(2, 1, sheetSrc.getLastRow() - 1, lastCol)
+    .getValues();
+  const columnsSrc = sheetSrc.getRange(1, 1, 1, lastCol).getValues()[0];
+  const COL_Headlines = columnsSrc.indexOf('headlines') + 1;
+  const COL_Descriptions = columnsSrc.indexOf('descriptions') + 1;
+  const similarityThreshold = getSimilarityThreshold(ConfigReader);
+
+  const rows = [];
+  const counts: Record<string, number> = {};
+  for (const rowSrc of valuesSrc) {
+    const ignore = rowSrc[8] === true || rowSrc[8] === 'TRUE';
+    if (ignore || !rowSrc[4]) continue;
+    const quality = analyzeAdGroup(
+      splitCellText(rowSrc, 7),
+      COL_Headlines ? splitOutputText(rowSrc[COL_Headlines - 1], true) : [],
+      COL_Descriptions
+        ? splitOutputText(rowSrc[COL_Descriptions - 1], true)
+        : [],
+      similarityThreshold
+    );
+    counts[quality.strength] = (counts[quality.strength] || 0) + 1;
+    rows.push([
+      rowSrc[0], // customer_id
+      rowSrc[3], // campaign_name
+      rowSrc[4], // adgroup_id
+      rowSrc[5], // adgroup_name
+      quality.headlines,
+      quality.descriptions,
+      quality.keywordCoverage,
+      quality.lengthUse,
+      quality.duplicates,
+      quality.strength,
+      quality.suggestions.join('\n'),
+    ]);
+  }
+  Logger.log(
+    `Quality report for ${rows.length} ad groups: ${JSON.stringify(counts)}`
+  );
+
+  const app = SpreadsheetApp.getActiveSpreadsheet();
+  let sheet = app.getSheetByName(Config.sheets.QualityReport);
+  if (sheet) {
+    sheet.clear();
+  } else {
+    sheet = app.insertSheet(Config.sheets.QualityReport);
+  }
+  const columns = QUALITY_REPORT_COLUMNS;
+  sheet.getRange(1, 1, 1, columns.length).setValues([columns]);
+  sheet.setFrozenRows(1);
+  if (rows.length) {
+    sheet.getRange(2, 1, rows.length, columns.length).setValues(rows);
+    sheet
+      .getRange(2, columns.indexOf('keyword_coverage') + 1, rows.length, 2)
+      .setNumberFormat('0%');
+  }
+  sheet.activate();
+}
+
+function logPinningWarnings(adgroupId: string, warnings: string[]) {
+  for (const warning of warnings) {
+    Logger.log(`WARNING: [AdGroup ${adgroupId}] ${warning}`);
+  }
+}
+
+const PUBLISH_STATUS_COLUMN = 'Publish status';
+
+export function publish_ads_validate() {
+  publish_ads(true);
+}
+
+/**
+ * Create RSAs in Google Ads from an 'import' sheet (generated by generate_ads_editor).
+ * Results (or errors) of each row are written into the last column ('Publish status').
+ * @param {Boolean} validateOnly - only validate ads without creating them
+ */
+export function publish_ads(validateOnly?: boolean) {
+  validateOnly = validateOnly === true;
+  const sheet = SpreadsheetApp.getActiveSheet();
+  if (!sheet.getName().toLocaleLowerCase().startsWith('import')) {
+    SpreadsheetApp.getUi().alert(
+      'Please switch to a sheet with generated ads (it should be titled "import")'
+    );
+    return;
+  }
+  if (sheet.getLastRow() < 2) return;
+  const client = getAdsClient();
+  if (!client) return;
+  const status =
+    ConfigReader.getValue(SETTINGS.ADS_PUBLISH_STATUS)
+      .toString()
+      .toLocaleUpperCase() === 'ENABLED'
+      ? 'ENABLED'
+      : 'PAUSED';
+
+  let lastCol = sheet.getLastColumn();
+  const columns = sheet.getRange(1, 1, 1, lastCol).getValues()[0];
+  let COL_Status = columns.indexOf(PUBLISH_STATUS_COLUMN) + 1;
+  if (COL_Status === 0) {
+    lastCol += 1;
+    COL_Status = lastCol;
+    sheet.getRange(1, COL_Status).setValue(PUBLISH_STATUS_COLUMN);
+    columns.push(PUBLISH_STATUS_COLUMN);
+  }
+  const values = sheet
+    .getRange(2, 1, sheet.getLastRow() - 1, lastCol)
+    .getValues();
+
+  // group operations by customers as mutate requests are per customer
+  const operations: Record<string, { rowNo: number; operation: any }[]> = {};
+  const statuses: string[][] = values.map(() => ['']);
+  for (let i = 0; i < values.length; i++) {
+    const row = values[i];
+    const customerId = getImportCell(row, columns, 'Customer ID')
+      .toString()
+      .replaceAll('-', '');
+    const adgroupId = getImportCell(row, columns, 'Ad group ID');
+    if (!customerId || !adgroupId) {
+      statuses[i][0] = 'Missing Customer ID or Ad group ID';
+      continue;
+    }
+    if (!operations[customerId]) {
+      operations[customerId] = [];
+    }
+    operations[customerId].push({
+      rowNo: i,
+      operation: createAdGroupAdOperation(
+        row,
+        columns,
+        `customers/${customerId}/adGroups/${adgroupId}`,
+        status
+      ),
+    });
+  }
+
+  const batchSize = Config.adsApi.mutate_batch_size;
+  for (const customerId of Object.keys(operations)) {
+    const ops = operations[customerId];
+    for (let start = 0; start < ops.length; start += batchSize) {
+      const batch = ops.slice(start, start + batchSize);
+      let res;
+      try {
+        res = client.mutate(
+          'adGroupAds',
+          batch.map(op => op.operation),
+          customerId,
+          { validateOnly, partialFailure: true }
+        );
+      } catch (e) {
+        // the whole request failed, mark all its rows
+        for (const op of batch) {
+          statuses[op.rowNo][0] = `ERROR: ${e}`;
+        }
+        continue;
+      }
+      for (let j = 0; j < batch.length; j++) {
+        const errors = [...res.batchErrors, ...(res.errors[j] || [])];
+        if (errors.length) {
+          statuses[batch[j].rowNo][0] = 'ERROR: ' + errors.join('\n');
+        } else if (validateOnly) {
+          statuses[batch[j].rowNo][0] = 'OK (validated)';
+        } else {
+          statuses[batch[j].rowNo][0] = 'Created: ' + (res.results[j] || '');
+        }
+      }
+    }
+  }
+  sheet.getRange(2, COL_Status, statuses.length, 1).setValues(statuses);
+}
+
+function getImportCell(row: any[], columns: any[], name: string): any {
+  const idx = columns.indexOf(name);
+  return idx === -1 ? '' : row[idx];
+}
+
+/**
+ * Create an AdGroupAd create operation for a row of an 'import' sheet.
+ * @param {Array} row - row's values
+ * @param {Array} columns - sheet's headers
+ * @param {String} adGroupResourceName
+ * @param {String} status - ad status (ENABLED/PAUSED)
+ */
+export function createAdGroupAdOperation(
+  row: any[],
+  columns: any[],
+  adGroupResourceName: string,
+  status: string
+) {
+  const getAssets = (prefix: string, count: number, pinPrefix: string) => {
+    const assets = [];
+    for (let i = 1; i <= count; i++) {
+      const text = getImportCell(row, columns, `${prefix} ${i}`);
+      if (!text) continue;
+      const asset: any = { text: text.toString() };
+      const position = getImportCell(row, columns, `${prefix} ${i} position`);
+      if (position) {
+        asset.pinnedField = `${pinPrefix}_${position}`;
+      }
+      assets.push(asset);
+    }
+    return assets;
+  };
+  const url = getImportCell(row, columns, 'Final URL');
+  const rsa: any = {
+    headlines: getAssets('Headline', 15, 'HEADLINE'),
+    descriptions: getAssets('Description', 4, 'DESCRIPTION'),
+  };
+  const path1 = getImportCell(row, columns, 'Path 1');
+  const path2 = getImportCell(row, columns, 'Path 2');
+  if (path1) rsa.path1 = path1;
+  if (path2) rsa.path2 = path2;
+  return {
+    create: {
+      adGroup: adGroupResourceName,
+      status: status,
+      ad: {
+        finalUrls: url ? [url] : [],
+        responsiveSearchAd: rsa,
+      },
+    },
+  };
+}
+
 function normalizeKeywordForCustomizerFeed(kw: string) {
   if (!kw) return kw;
   kw = kw.replaceAll(/["'`[\]+\-|!]/gi, '').trim();
@@ -671,24 +2894,34 @@ export function generate_customizer_feed() {
     );
     return;
   }
+  const lastCol = sheetSrc.getLastColumn();
+  const columnsSrc = sheetSrc.getRange(1, 1, 1, lastCol).getValues()[0];
   const valuesSrc = sheetSrc
-    .getRange(2, 1, sheetSrc.getLastRow() - 1, 11)
+    .getRange(2, 1, sheetSrc.getLastRow() - 1, lastCol)
     .getValues();
 
   const useLlm = !(
     ConfigReader.getValue(SETTINGS.ADS_CUSTOMIZER_use_llm) === false
   );
+  let attributes: CustomizerAttribute[];
+  try {
+    attributes = loadCustomizerAttributes(new ConfigSheetReader());
+  } catch (e) {
+    SpreadsheetApp.getUi().alert(`${e}`);
+    return;
+  }
 
   let predictor: Predictor | undefined = undefined;
+  const usage = new UsageTracker();
   if (useLlm) {
     predictor = getPredictor();
     if (!predictor) return;
+    predictor.usage = usage;
   }
-  const customizerName =
-    ConfigReader.getValue(SETTINGS.ADS_CUSTOMIZER_NAME) || 'CustomDKI';
 
   const rows = [];
   let current_cid = '';
+  const noValues = attributes.map(() => '');
   for (let i = 0; i < valuesSrc.length; i++) {
     const rowSrc = valuesSrc[i];
     const customer_id = rowSrc[0];
@@ -698,42 +2931,46 @@ export function generate_customizer_feed() {
     const ignore = rowSrc[8];
     if (ignore) continue;
     if (current_cid !== customer_id) {
-      rows.push([customizerName, 'Text', '', customer_id, '', '', '', '']);
+      // attributes are defined once per customer
+      for (const attribute of attributes) {
+        rows.push([
+          attribute.name,
+          attribute.type,
+          '',
+          customer_id,
+          '',
+          '',
+          '',
+          ...noValues,
+          '',
+        ]);
+      }
       current_cid = customer_id;
     }
     if (keywords_array.length) {
-      if (predictor) {
-        const values = predictor.getCustomizers(keywords_array);
-        const length = Math.min(values.length, keywords_array.length);
-        for (let j = 0; j < length; j++) {
-          const kwSrc = keywords_array[j];
-          const kwDst = values[j];
-          const row = [
-            '',
-            '',
-            '',
-            customer_id,
-            campaign_id,
-            adgroup_id,
-            kwSrc,
-            kwDst,
-          ];
-          rows.push(row);
-        }
-      } else {
-        for (const kw of keywords_array) {
-          const row = [
-            '',
-            '',
-            '',
-            customer_id,
-            campaign_id,
-            adgroup_id,
-            kw,
-            normalizeKeywordForCustomizerFeed(kw),
-          ];
-          rows.push(row);
-        }
+      usage.adgroupId = String(adgroup_id);
+      // language_override or the campaign's language
+      const language = createAdGroupFromRow(rowSrc, columnsSrc).language;
+      const values = attributes.map(attribute =>
+        getCustomizerValues(predictor, keywords_array, attribute, language)
+      );
+      for (let j = 0; j < keywords_array.length; j++) {
+        const methods = values.map((attrValues, k) =>
+          attributes.length > 1
+            ? `${attributes[k].name}: ${attrValues[j].method}`
+            : attrValues[j].method
+        );
+        rows.push([
+          '',
+          '',
+          '',
+          customer_id,
+          campaign_id,
+          adgroup_id,
+          keywords_array[j],
+          ...values.map(attrValues => attrValues[j].value),
+          methods.join(', '),
+        ]);
       }
     }
   }
@@ -745,7 +2982,9 @@ export function generate_customizer_feed() {
     'Campaign ID',
     'Ad group ID',
     'Keyword',
-    'Customizer:' + customizerName,
+    ...attributes.map(attribute => 'Customizer:' + attribute.name),
+    // how values were produced (see CustomizerValueMethod)
+    'Method',
   ];
   let title = sheetSrc.getName().replace('keywords', 'feed');
   title = title.replace(
@@ -761,57 +3000,401 @@ export function generate_customizer_feed() {
   sheetDst.activate();
   sheetDst.getRange(1, 1, 1, columns.length).setValues([columns]);
   sheetDst.getRange(2, 1, rows.length, columns.length).setValues(rows);
+  completeRun(usage);
+}
+
+/**
+ * Generate values of a customizer attribute for keywords of an ad group.
+ * Keywords without valid values from the model are normalized to be values
+ * (for Text attributes) or left empty.
+ * @param {Predictor} predictor - undefined if LLM is not used
+ * @param {String[]} keywords
+ * @param {CustomizerAttribute} attribute
+ * @param [String] language - target language of values
+ * @returns {CustomizerValue[]} values for each keyword
+ */
+function getCustomizerValues(
+  predictor: Predictor | undefined,
+  keywords: string[],
+  attribute: CustomizerAttribute,
+  language?: string
+): CustomizerValue[] {
+  const values = predictor
+    ? predictor.getCustomizers(keywords, attribute, language)
+    : {};
+  return keywords.map(kw => {
+    if (values[kw]) return values[kw];
+    if (attribute.type === CustomizerType.Text) {
+      const value = normalizeKeywordForCustomizerFeed(kw);
+      if (!validateCustomizerValue(value, attribute)) {
+        return { value, method: CustomizerValueMethod.Keyword };
+      }
+    }
+    return { value: '', method: CustomizerValueMethod.None };
+  });
+}
+
+/**
+ * Create customizer attributes and customizer values of keywords (or of
+ * ad groups for rows without keywords) in Google Ads from a 'feed' sheet
+ * (generated by generate_customizer_feed).
+ * Results (or errors) of each row are written into the 'Publish status' column.
+ */
+export function upload_customizer_feed() {
+  const sheet = SpreadsheetApp.getActiveSheet();
+  if (!sheet.getName().toLocaleLowerCase().startsWith('feed')) {
+    SpreadsheetApp.getUi().alert(
+      'Please switch to a sheet with a customizer feed (it should be titled "feed")'
+    );
+    return;
+  }
+  if (sheet.getLastRow() < 2) return;
+  const client = getAdsClient();
+  if (!client) return;
+
+  const columns = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0];
+  const COL_Status = ensureColumn(sheet, columns, PUBLISH_STATUS_COLUMN);
+  const values = sheet
+    .getRange(2, 1, sheet.getLastRow() - 1, columns.length)
+    .getValues();
+  // columns with values of attributes
+  const valueColumns = columns
+    .map((name: string, idx: number) => ({ name: name.toString(), idx }))
+    .filter(col => col.name.startsWith('Customizer:'))
+    .map(col => ({
+      name: col.name.substring('Customizer:'.length),
+      idx: col.idx,
+    }));
+
+  const messages: string[][] = values.map(() => []);
+  // row indexes grouped by customers as mutate requests are per customer
+  const customerRows: Record<string, number[]> = {};
+  for (let i = 0; i < values.length; i++) {
+    const customerId = getImportCell(values[i], columns, 'Customer ID')
+      .toString()
+      .replaceAll('-', '');
+    if (!customerId) {
+      messages[i].push('Missing Customer ID');
+      continue;
+    }
+    if (!customerRows[customerId]) {
+      customerRows[customerId] = [];
+    }
+    customerRows[customerId].push(i);
+  }
+
+  for (const [customerId, rowIdxs] of Object.entries(customerRows)) {
+    try {
+      uploadCustomerFeed(
+        client,
+        customerId,
+        rowIdxs,
+        values,
+        columns,
+        valueColumns,
+        messages
+      );
+    } catch (e) {
+      for (const i of rowIdxs) {
+        messages[i].push(`ERROR: ${e}`);
+      }
+    }
+  }
+  sheet
+    .getRange(2, COL_Status, messages.length, 1)
+    .setValues(messages.map(rowMessages => [rowMessages.join('\n')]));
+}
+
+/**
+ * Upload attributes and values of a customer's rows of a feed sheet.
+ */
+function uploadCustomerFeed(
+  client: GoogleAdsClient,
+  customerId: string,
+  rowIdxs: number[],
+  values: any[][],
+  columns: any[],
+  valueColumns: { name: string; idx: number }[],
+  messages: string[][]
+) {
+  // existing attributes
+  const attributes: Record<string, { type: CustomizerType; rn: string }> = {};
+  const existing: Record<string, string> = {};
+  for (const row of client.execQuery(
+    `SELECT customizer_attribute.name, customizer_attribute.resource_name
+    FROM customizer_attribute
+    WHERE customizer_attribute.status = ENABLED`,
+    customerId
+  )) {
+    existing[row.customizerAttribute.name] =
+      row.customizerAttribute.resourceName;
+  }
+  // attributes rows (with Attribute and Data type)
+  const createOps: { rowNo: number; operation: any }[] = [];
+  for (const i of rowIdxs) {
+    const name = getImportCell(values[i], columns, 'Attribute').toString();
+    if (!name) continue;
+    const type = getImportCell(values[i], columns, 'Data type').toString();
+    attributes[name] = { type: type as CustomizerType, rn: existing[name] };
+    if (existing[name]) {
+      messages[i].push(`Exists: ${existing[name]}`);
+    } else {
+      createOps.push({
+        rowNo: i,
+        operation: { create: { name, type: type.toUpperCase() } },
+      });
+    }
+  }
+  mutateFeedOperations(
+    client,
+    'customizerAttributes',
+    createOps,
+    customerId,
+    messages,
+    (op, rn) => {
+      attributes[op.operation.create.name].rn = rn;
+    }
+  );
+
+  // keywords' criteria of ad groups
+  const adgroupIds = new Set<string>();
+  for (const i of rowIdxs) {
+    const adgroupId = getImportCell(values[i], columns, 'Ad group ID');
+    if (adgroupId && getImportCell(values[i], columns, 'Keyword')) {
+      adgroupIds.add(adgroupId.toString());
+    }
+  }
+  const criteria: Record<string, string> = {};
+  if (adgroupIds.size) {
+    for (const row of client.execQuery(
+      `SELECT ad_group.id, ad_group_criterion.resource_name, ad_group_criterion.keyword.text
+      FROM ad_group_criterion
+      WHERE ad_group_criterion.type = KEYWORD
+        AND ad_group_criterion.status != REMOVED
+        AND ad_group.id IN (${Array.from(adgroupIds).join(', ')})`,
+      customerId
+    )) {
+      const key = `${
+        row.adGroup.id
+      }|${row.adGroupCriterion.keyword.text.toLocaleLowerCase()}`;
+      criteria[key] = row.adGroupCriterion.resourceName;
+    }
+  }
+
+  // values rows (with Ad group ID)
+  const criterionOps: { rowNo: number; operation: any }[] = [];
+  const adgroupOps: { rowNo: number; operation: any }[] = [];
+  for (const i of rowIdxs) {
+    const adgroupId = getImportCell(values[i], columns, 'Ad group ID');
+    if (!adgroupId) continue;
+    const keyword = getImportCell(values[i], columns, 'Keyword').toString();
+    const criterion = keyword
+      ? criteria[`${adgroupId}|${keyword.toLocaleLowerCase()}`]
+      : undefined;
+    if (keyword && !criterion) {
+      messages[i].push(`ERROR: keyword "${keyword}" not found`);
+      continue;
+    }
+    for (const col of valueColumns) {
+      const value = values[i][col.idx]?.toString();
+      if (!value) continue;
+      const attribute = attributes[col.name];
+      if (!attribute?.rn) {
+        messages[i].push(`ERROR: attribute ${col.name} was not created`);
+        continue;
+      }
+      const customizer: any = {
+        customizerAttribute: attribute.rn,
+        value: createCustomizerApiValue(value, attribute.type),
+      };
+      if (criterion) {
+        customizer.adGroupCriterion = criterion;
+        criterionOps.push({ rowNo: i, operation: { create: customizer } });
+      } else {
+        customizer.adGroup = `customers/${customerId}/adGroups/${adgroupId}`;
+        adgroupOps.push({ rowNo: i, operation: { create: customizer } });
+      }
+    }
+  }
+  mutateFeedOperations(
+    client,
+    'adGroupCriterionCustomizers',
+    criterionOps,
+    customerId,
+    messages
+  );
+  mutateFeedOperations(
+    client,
+    'adGroupCustomizers',
+    adgroupOps,
+    customerId,
+    messages
+  );
+}
+
+/**
+ * Execute mutate operations in batches adding results to rows' messages.
+ * @param {GoogleAdsClient} client
+ * @param {String} service
+ * @param {Array} ops - operations with indexes of their rows
+ * @param {String} customerId
+ * @param {Array} messages - messages by rows
+ * @param [Function] onCreated - called for each successful operation
+ */
+function mutateFeedOperations(
+  client: GoogleAdsClient,
+  service: string,
+  ops: { rowNo: number; operation: any }[],
+  customerId: string,
+  messages: string[][],
+  onCreated?: (op: { rowNo: number; operation: any }, rn: string) => void
+) {
+  const batchSize = Config.adsApi.mutate_batch_size;
+  for (let start = 0; start < ops.length; start += batchSize) {
+    const batch = ops.slice(start, start + batchSize);
+    const res = client.mutate(
+      service,
+      batch.map(op => op.operation),
+      customerId,
+      { partialFailure: true }
+    );
+    for (let j = 0; j < batch.length; j++) {
+      const errors = [...res.batchErrors, ...(res.errors[j] || [])];
+      if (errors.length) {
+        messages[batch[j].rowNo].push('ERROR: ' + errors.join('\n'));
+      } else {
+        messages[batch[j].rowNo].push('Created: ' + (res.results[j] || ''));
+        onCreated?.(batch[j], res.results[j] || '');
+      }
+    }
+  }
+}
+
+type PredictionStage =
+  | 'headlines'
+  | 'descriptions'
+  | 'customizers'
+  | 'paths'
+  | 'language'
+  | 'judge';
+
+interface RepairOptions {
+  stage: PredictionStage;
+  /** create a prompt for rewriting invalid texts */
+  getPrompt: (invalid: string[]) => string;
+  min: number;
+  max: number;
+  /** number of valid texts to stop repairing at */
+  target: number;
+  /** texts that shouldn't be repeated */
+  existing?: string[];
+  history: any[];
+  normalize?: (text: string) => string;
 }
 
 export class Predictor {
-  api: GeminiVertexApi;
+  api: IModelApi;
   configReader: IConfigReader;
   customerName: string;
   promptHeadlinesTemplate: string;
   promptHeadlinesShortenTemplate: string;
   promptDescriptionsTemplate: string;
+  promptDescriptionsShortenTemplate: string;
   promptCustomizersTemplate: string;
+  promptPathsTemplate: string;
+  promptPathsShortenTemplate: string;
+  promptLanguageCheckTemplate: string;
+  promptJudgeTemplate: string;
+  repairMaxAttempts: number;
+  similarityThreshold: number;
+  /** max number of tokens in prompts by stages */
+  tokenBudgets: Record<string, number>;
+  /** number of candidate sets of headlines/descriptions to pool and rank */
+  candidates: number;
+  /** generate candidates in one request (candidateCount) or in several */
+  candidatesMethod: string;
+  /** ask the model to score candidates (LLM as a judge) */
+  judge: boolean;
   history: any[];
+  /** notes about the current adgroup's generation (e.g. fallbacks) */
+  status: string[];
+  /** accounting of tokens used by model calls (if set) */
+  usage?: UsageTracker;
+  /** scores of texts selected from candidates for the current adgroup */
+  scores: string[];
+
+  static RESPONSE_SCHEMAS: Record<PredictionStage, JsonSchema> = {
+    headlines: { type: 'array', items: { type: 'string' } },
+    descriptions: { type: 'array', items: { type: 'string' } },
+    customizers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          keyword: { type: 'string' },
+          value: { type: 'string' },
+        },
+        required: ['keyword', 'value'],
+      },
+    },
+    paths: { type: 'array', items: { type: 'string' } },
+    language: { type: 'array', items: { type: 'string' } },
+    judge: { type: 'array', items: { type: 'number' } },
+  };
+
+  /**
+   * Value of the LANGUAGE macro if a target language is unknown.
+   */
+  static DEFAULT_LANGUAGE =
+    'the language of the input keywords (detect the language of each keyword and use the same one)';
+
+  static PROMPT_INVALID_REPLY = `Your reply does not match the expected format: {ERROR}.
+Please reply again with the same content as a JSON matching the following JSON schema: {SCHEMA}
+Do not add any additional text, symbols, emoji, or formatting (e.g. Markdown) to your JSON response.`;
 
   static DEFAULT_PROMPT_HEADLINES = `You are a marketing specialist accountable for generating search campaigns for {CUSTOMER_NAME} customer in Google Ads.
 Keywords capture what users search on google.com while headlines and descriptions are what users see in ads that relevant to their search.
 
 *Instructions*:
 
-1. Please generate 15 best selling creative headlines of maximum 25 characters each for a Google Ads search campaign (RSA).
+1. Please generate 15 best selling creative headlines of {MIN} to {MAX} characters each for a Google Ads search campaign (RSA).
 2. Use the keywords below (in the "Input Keywords" section) as input.
 3. Output Format: Return a JSON array of strings, where each string is a headline. Don't add anything around the code block.
 4. Concise Formatting: Don't add any additional text, symbols, emoji, or formatting (e.g. Markdown) to your JSON response.
-5. Language Matching: Detect the language of each input keyword and generate the headline in the same language.
+5. Language: Generate the headlines in {LANGUAGE}.
 6. Use the following guidelines for headlines text:
   * No Business Name in Headline
   * No Symbols & Emojis: Don't add punctuation and/or symbols that don't make sense, emojis are also not allowed
   * No Exclamation Marks
   * No 'Quick' Promises: Don't promise a quick solution to major issues (for example "lose weight overnight")
+  * No Repetition: Don't repeat headlines that are already used in ads (in the "Existing Headlines" section)
 
 *Input Keywords* (one per line):
 {KEYWORDS}
 
+*Existing Headlines* (one per line, might be empty):
+{EXISTING_HEADLINES}
+
 {SUFFIX}`;
 
   static DEFAULT_PROMPT_HEADLINES_SHORTEN = `Some of the generated headlines are shorter or longer than the minimum ({MIN}) and the maximum ({MAX}) respectedly.
 Please rewrite the following headlines to be not shorter than {MIN} and not longer than {MAX} symbols. Only rewrite the specified headlines in this message, do not add the previous ones.
 Please reply in JSON format and return a JSON array of strings with headlines as elements.
-Again do not add any additional text, symbols, emoji, or formatting (e.g. Markdown) to your JSON response. The headlines to rewrite are:\n\n{HEADLINES}`;
+Again do not add any additional text, symbols, emoji, or formatting (e.g. Markdown) to your JSON response. The headlines to rewrite are:\n\n{HEADLINES|bullets}`;
 
   static DEFAULT_PROMPT_DESCRIPTIONS = `You are a marketing specialist accountable for generating search campaigns for {CUSTOMER_NAME} customer in Google Ads.
 Keywords capture what users search on google.com while headlines and descriptions are what users see in ads that relevant to their search.
 
 *Instructions*:
-1. Please generate 4 best selling creative descriptions of maximum 80 characters each for a Google Ads search campaign (RSA)
+1. Please generate 4 best selling creative descriptions of {MIN} to {MAX} characters each for a Google Ads search campaign (RSA)
 2. Use the keywords (in the "Input Keywords" section) and headlines (in the "Input Headlines" section) below as input.
 3. Output Format: Return a JSON array of strings, where each string is a description. Don't add anything around the code block.
 4. Concise Formatting: Don't add any additional text, symbols, emoji, or formatting (e.g. Markdown) to your JSON response.
-5. Language Matching: Detect the language of each input keyword and generate the headline in the same language.
+5. Language: Generate the descriptions in {LANGUAGE}.
 6. Use the following guidelines for descriptions text:
   * Related to Headlines: the description should provide additional information and context that supports the headlines.
   * No Excessive Punctuation: Just as in headlines, don't use excessive or unnecessary punctuation marks.
-  * No Repetition: Don't repeat the same phrases you've used in other elements of the ad.
+  * No Repetition: Don't repeat the same phrases you've used in other elements of the ad and descriptions that are already used in ads (in the "Existing Descriptions" section).
   * No 'Quick' Promises: As in headlines, don't promise a quick solution to significant issues.
 
 *Input Keywords* (one per line):
@@ -820,10 +3403,18 @@ Keywords capture what users search on google.com while headlines and description
 *Input Headlines* (one per line) - the ones you previously generated from the keywords:
 {HEADLINES}
 
+*Existing Descriptions* (one per line, might be empty):
+{EXISTING_DESCRIPTIONS}
+
 {SUFFIX}`;
 
+  static DEFAULT_PROMPT_DESCRIPTIONS_SHORTEN = `Some of the generated descriptions are shorter or longer than the minimum ({MIN}) and the maximum ({MAX}) respectedly.
+Please rewrite the following descriptions to be not shorter than {MIN} and not longer than {MAX} symbols. Only rewrite the specified descriptions in this message, do not add the previous ones.
+Please reply in JSON format and return a JSON array of strings with descriptions as elements.
+Again do not add any additional text, symbols, emoji, or formatting (e.g. Markdown) to your JSON response. The descriptions to rewrite are:\n\n{DESCRIPTIONS|bullets}`;
+
   static DEFAULT_PROMPT_CUSTOMIZERS = `You are transforming keywords into compelling headlines for Google Ads Responsive Search Ads (RSAs).
-These headlines will be dynamically matched to user search terms for maximum relevance. Importantly, preserve the language of each input keyword in its corresponding output headline.
+These headlines will be dynamically matched to user search terms for maximum relevance.
 
 *Instructions*:
 
@@ -832,21 +3423,68 @@ These headlines will be dynamically matched to user search terms for maximum rel
   * Headline Case: Capitalize the first letter of each word.
   * Character Limit: Strictly adhere to the {MAX}-character maximum per headline.
   * Special Characters: Remove any symbols except letters and digits.
-3. 1:1 Mapping: Maintain the original order, ensuring the output has the same number of headlines as the input keywords.
-4. Language Matching: Detect the language of each input keyword and generate the headline in the same language.
-5. Output Format: Return a JSON array of strings, where each string is a transformed headline. Do not add anything around the code block.
+3. Keyed Output: Return a headline for every input keyword, each keyword should be given exactly as it is in the input.
+4. Language: Generate the headlines in {LANGUAGE}.
+5. Output Format: Return a JSON array of objects with "keyword" (an input keyword) and "value" (its transformed headline) fields. Do not add anything around the code block.
+
+Input Keywords (one per line):
+{KEYWORDS}
+
+{SUFFIX}
+`;
+
+  static DEFAULT_PROMPT_PATHS = `You are a marketing specialist accountable for generating search campaigns for {CUSTOMER_NAME} customer in Google Ads.
+Display paths are parts of the display URL shown in ads after the domain (e.g. example.com/Path1/Path2), they give users an idea of the landing page.
+
+*Instructions*:
+
+1. Please generate 2 display paths of maximum {MAX} characters each for a Google Ads search campaign (RSA).
+2. Use the keywords (in the "Input Keywords" section){#if URL} and the landing page URL (in the "Landing Page" section){/if} below as input.
+3. The first path should be more generic (e.g. a category) and the second one more specific (e.g. a product).
+4. Don't use spaces, slashes or symbols inside paths, use "-" to separate words if needed.
+5. Output Format: Return a JSON array of two strings, where each string is a path. Don't add anything around the code block.
+6. Language: Generate the paths in {LANGUAGE}.
+
+*Input Keywords* (one per line):
+{KEYWORDS}
+{#if URL}
+*Landing Page*:
+{URL}
+{/if}
+{SUFFIX}`;
+
+  static DEFAULT_PROMPT_LANGUAGE_CHECK = `You are reviewing ads texts for a Google Ads search campaign targeting users who speak {LANGUAGE}.
+Check each of the texts below (in the "Texts" section) whether it is written in {LANGUAGE}. Brand names, product names and loanwords commonly used in {LANGUAGE} are acceptable.
+Output Format: Return a JSON array of strings with the texts (exactly as they are given) that are NOT written in {LANGUAGE}, return an empty array if all texts are fine.
+Don't add any additional text, symbols, emoji, or formatting (e.g. Markdown) to your JSON response.
+
+*Texts* (one per line):
+{TEXTS}`;
+
+  static DEFAULT_PROMPT_JUDGE = `You are a marketing specialist reviewing {STAGE} for a Google Ads search campaign (RSA) of {CUSTOMER_NAME} customer.
 
-Input Keywords (one per line):
+*Instructions*:
+
+1. Score each of the texts below (in the "Texts" section) from 0 (worst) to 10 (best) as an ad text for users searching for the keywords (in the "Input Keywords" section).
+2. Consider relevance to the keywords, selling appeal, clarity, grammar and that the text is written in {LANGUAGE}.
+3. Output Format: Return a JSON array of numbers with a score for each text in the same order as the texts are given. Don't add anything around the code block.
+
+*Input Keywords* (one per line):
 {KEYWORDS}
 
-{SUFFIX}
-`;
+*Texts*:
+{TEXTS|numbered}`;
+
+  static DEFAULT_PROMPT_PATHS_SHORTEN = `Some of the generated paths are longer than the maximum ({MAX}).
+Please rewrite the following paths to be not longer than {MAX} symbols.
+Please reply in JSON format and return a JSON array of strings with paths as elements.
+Again do not add any additional text, symbols, emoji, or formatting (e.g. Markdown) to your JSON response. The paths to rewrite are:\n\n{PATHS|bullets}`;
 
   /**
-   * @param {PalmApi} api
+   * @param {IModelApi} api
    * @param {String} customerName
    */
-  constructor(api: GeminiVertexApi, customerName: string) {
+  constructor(api: IModelApi, customerName: string) {
     this.api = api;
     this.configReader = api.configReader;
     this.customerName = customerName;
@@ -859,14 +3497,57 @@ Input Keywords (one per line):
     this.promptDescriptionsTemplate =
       this.configReader.getValue(SETTINGS.LLM_Prompt_Descriptions) ||
       Predictor.DEFAULT_PROMPT_DESCRIPTIONS;
+    this.promptDescriptionsShortenTemplate =
+      this.configReader.getValue(SETTINGS.LLM_Prompt_Descriptions_Shorten) ||
+      Predictor.DEFAULT_PROMPT_DESCRIPTIONS_SHORTEN;
     this.promptCustomizersTemplate =
       this.configReader.getValue(SETTINGS.LLM_Prompt_Customizers) ||
       Predictor.DEFAULT_PROMPT_CUSTOMIZERS;
+    this.promptPathsTemplate =
+      this.configReader.getValue(SETTINGS.LLM_Prompt_Paths) ||
+      Predictor.DEFAULT_PROMPT_PATHS;
+    this.promptPathsShortenTemplate =
+      this.configReader.getValue(SETTINGS.LLM_Prompt_Paths_Shorten) ||
+      Predictor.DEFAULT_PROMPT_PATHS_SHORTEN;
+    this.promptLanguageCheckTemplate =
+      this.configReader.getValue(SETTINGS.LLM_Prompt_Language_Check) ||
+      Predictor.DEFAULT_PROMPT_LANGUAGE_CHECK;
+    this.promptJudgeTemplate =
+      this.configReader.getValue(SETTINGS.LLM_Prompt_Judge) ||
+      Predictor.DEFAULT_PROMPT_JUDGE;
+    this.repairMaxAttempts =
+      parseInt(this.configReader.getValue(SETTINGS.LLM_Repair_Max_Attempts)) ||
+      Config.generation.repairMaxAttempts;
+    this.similarityThreshold = getSimilarityThreshold(this.configReader);
+    this.tokenBudgets = parseTokenBudgets(
+      this.configReader.getValue(SETTINGS.LLM_Prompt_Token_Budget),
+      Config.generation.tokenBudgets
+    );
+    this.candidates =
+      parseInt(this.configReader.getValue(SETTINGS.GENERATION_candidates)) ||
+      Config.generation.candidates;
+    this.candidatesMethod = (
+      this.configReader.getValue(SETTINGS.GENERATION_candidates_method) ||
+      Config.generation.candidatesMethod
+    ).toString();
+    if (!['candidateCount', 'calls'].includes(this.candidatesMethod)) {
+      throw new Error(
+        `Unknown ${SETTINGS.GENERATION_candidates_method} '${this.candidatesMethod}', supported values: candidateCount, calls`
+      );
+    }
+    this.judge =
+      (this.configReader.getValue(SETTINGS.GENERATION_judge) || '')
+        .toString()
+        .toLocaleUpperCase() === 'TRUE';
     this.history = [];
+    this.status = [];
+    this.scores = [];
   }
 
   clearHistory() {
     this.history = [];
+    this.status = [];
+    this.scores = [];
   }
 
   _normalizeAdText(text: string) {
@@ -904,15 +3585,244 @@ Input Keywords (one per line):
       });
     }
     if (texts) {
-      texts = texts
-        .map(text => {
-          return this._normalizeAdText(text);
-        })
-        .filter(text => text && text.length > 0);
+      texts = this._normalizeTexts(texts);
+    }
+    return texts;
+  }
+
+  _normalizeTexts(texts: string[]): string[] {
+    return texts
+      .map(text => {
+        return this._normalizeAdText(text);
+      })
+      .filter(text => text && text.length > 0);
+  }
+
+  /**
+   * Send a prompt and get a list of texts from the model's reply.
+   * The reply should be a JSON matching the stage's schema, otherwise the model
+   * is asked to correct it, and only then the reply is parsed as text
+   * (such fallbacks are recorded in the status).
+   * @param {String} prompt
+   * @param {PredictionStage} stage
+   * @param {Array} history - chat history (a new chat is started if omitted)
+   * @param [Number] cacheVariant - index of a repeated identical request
+   * @returns {String[]} normalized texts
+   */
+  _predictTexts(
+    prompt: string,
+    stage: PredictionStage,
+    history?: any[],
+    cacheVariant?: number
+  ): string[] {
+    const res = this._predictJson(prompt, stage, history, cacheVariant);
+    return this.parseTexts(res.reply, stage);
+  }
+
+  /**
+   * Parse a model's reply (e.g. a result of a batch job) into a list of texts.
+   * The reply should be a JSON matching the stage's schema, otherwise it's
+   * parsed as text (such fallbacks are recorded in the status).
+   * @param {String} reply - raw model's reply
+   * @param {PredictionStage} stage
+   * @returns {String[]} normalized texts
+   */
+  parseTexts(reply: string, stage: PredictionStage): string[] {
+    const res = parseJsonReply(reply, Predictor.RESPONSE_SCHEMAS[stage]);
+    if (res.error) {
+      Logger.log(
+        `WARNING: model's reply (${stage}) does not match the schema: ${res.error}, falling back to text`
+      );
+      this.status.push(
+        `${stage}: reply did not match the schema (${res.error}), parsed as text`
+      );
+      return this._normalizeReply(reply);
+    }
+    return this._normalizeTexts(res.value);
+  }
+
+  /**
+   * Send a prompt and parse the model's reply as a JSON matching the stage's
+   * schema. If it doesn't match, the model is asked to correct it once.
+   * @param {String} prompt
+   * @param {PredictionStage} stage
+   * @param {Array} history - chat history (a new chat is started if omitted)
+   * @param [Number] cacheVariant - index of a repeated identical request
+   * @returns parsed value or an error message, and the last raw reply
+   */
+  _predictJson(
+    prompt: string,
+    stage: PredictionStage,
+    history?: any[],
+    cacheVariant?: number
+  ): { value?: any; error?: string; reply: string } {
+    history = history || [];
+    const schema = Predictor.RESPONSE_SCHEMAS[stage];
+    let replyRaw = this.api.predict(prompt, history, {
+      responseSchema: schema,
+      cacheVariant,
+    });
+    this._trackUsage(stage);
+    let res = parseJsonReply(replyRaw, schema);
+    if (res.error) {
+      Logger.log(
+        `WARNING: model's reply (${stage}) does not match the schema: ${res.error}, retrying`
+      );
+      const retryPrompt = this._getPrompt(
+        Predictor.PROMPT_INVALID_REPLY,
+        undefined,
+        {
+          ERROR: res.error,
+          SCHEMA: JSON.stringify(schema),
+        }
+      );
+      replyRaw = this.api.predict(retryPrompt, history, {
+        responseSchema: schema,
+        cacheVariant,
+      });
+      this._trackUsage(stage);
+      res = parseJsonReply(replyRaw, schema);
+    }
+    return { ...res, reply: replyRaw };
+  }
+
+  /**
+   * Generate several sets of texts (candidates) for a prompt and pool them.
+   * With the candidateCount method all sets are generated in one request
+   * (if the model supports it), otherwise each set is requested separately
+   * in a copy of the chat history. Only the first set is kept in the history.
+   * @param {String} prompt
+   * @param {PredictionStage} stage
+   * @param {Array} history
+   * @returns {String[]} normalized texts of all sets
+   */
+  _predictCandidates(
+    prompt: string,
+    stage: PredictionStage,
+    history: any[]
+  ): string[] {
+    if (this.candidates <= 1) {
+      return this._predictTexts(prompt, stage, history);
+    }
+    if (
+      this.candidatesMethod === 'candidateCount' &&
+      this.api.predictCandidates
+    ) {
+      const schema = Predictor.RESPONSE_SCHEMAS[stage];
+      const replies = this.api.predictCandidates(
+        prompt,
+        this.candidates,
+        history,
+        { responseSchema: schema }
+      );
+      this._trackUsage(stage);
+      const texts: string[] = [];
+      for (const reply of replies) {
+        const res = parseJsonReply(reply, schema);
+        if (res.error) {
+          this.status.push(
+            `${stage}: candidate reply did not match the schema (${res.error}), parsed as text`
+          );
+          texts.push(...this._normalizeReply(reply));
+        } else {
+          texts.push(...this._normalizeTexts(res.value));
+        }
+      }
+      return texts;
+    }
+    const initialHistory = history.slice();
+    const texts = this._predictTexts(prompt, stage, history);
+    // identical requests of other sets are distinguished for the cache,
+    // otherwise they would get the first set's cached response
+    for (let i = 1; i < this.candidates; i++) {
+      texts.push(
+        ...this._predictTexts(prompt, stage, initialHistory.slice(), i)
+      );
     }
     return texts;
   }
 
+  /**
+   * Select the best texts from a pool of candidates by their scores.
+   * Scores of selected texts are added to `scores` for reviewers.
+   * @param {AdGroup} adgroup
+   * @param {String[]} texts - candidates
+   * @param {PredictionStage} stage
+   * @param {Number} count - number of texts to select
+   * @param {Number} maxLength - max length of texts
+   * @returns {String[]} selected texts (the best first)
+   */
+  _rankTexts(
+    adgroup: AdGroup,
+    texts: string[],
+    stage: PredictionStage,
+    count: number,
+    maxLength: number
+  ): string[] {
+    if (this.candidates <= 1 || !texts.length) return texts;
+    const scores = scoreAssets(texts, {
+      keywords: (adgroup.keywords || '').split('\n'),
+      maxLength,
+      trademarks: parseTrademarks(
+        this.configReader.getValue(SETTINGS.LINTER_trademarks)
+      ),
+      judgeScores: this.judge
+        ? this.judgeTexts(adgroup, texts, stage)
+        : undefined,
+      weights: Config.generation.scoreWeights,
+    });
+    const top = selectTopAssets(scores, count);
+    Logger.log(
+      `[AdGroup ${adgroup.adgroup_id}] ${top.length} of ${texts.length} ${stage} selected by scores`
+    );
+    this.scores.push(`${stage}:`, ...top.map(formatScore));
+    return top.map(score => score.text);
+  }
+
+  /**
+   * Ask the model to score texts (LLM as a judge).
+   * @param {AdGroup} adgroup
+   * @param {String[]} texts
+   * @param {PredictionStage} stage - stage the texts were generated at
+   * @returns {Number[]|undefined} scores (0..10) of texts or undefined if
+   *  the model's reply is invalid
+   */
+  judgeTexts(
+    adgroup: AdGroup,
+    texts: string[],
+    stage: PredictionStage
+  ): number[] | undefined {
+    const prompt = this._getPrompt(
+      this.promptJudgeTemplate,
+      adgroup.keywords,
+      {
+        CUSTOMER_NAME: this.customerName || ' a ',
+        LANGUAGE: adgroup.language || Predictor.DEFAULT_LANGUAGE,
+        STAGE: stage,
+        TEXTS: texts,
+      },
+      'judge'
+    );
+    Logger.log(`Sending a prompt (judge): ${prompt}`);
+    const schema = Predictor.RESPONSE_SCHEMAS.judge;
+    const reply = this.api.predict(prompt, [], { responseSchema: schema });
+    this._trackUsage('judge');
+    const res = parseJsonReply(reply, schema);
+    const error =
+      res.error ||
+      (res.value.length !== texts.length
+        ? `expected ${texts.length} scores, got ${res.value.length}`
+        : undefined);
+    if (error) {
+      Logger.log(`WARNING: judge's reply is invalid: ${error}`);
+      this.status.push(
+        `judge: invalid reply (${error}), ${stage} ranked without it`
+      );
+      return undefined;
+    }
+    return res.value;
+  }
+
   /**
    * Create a prompt for generating headlines for an adgroup's keywords.
    * @param {AdGroup} adgroup
@@ -921,11 +3831,14 @@ Input Keywords (one per line):
     headlines: string[];
     longHeadlines: string[];
   } {
-    let prompt = this.getHeadlinesPrompt(adgroup);
+    const prompt = this.getHeadlinesPrompt(adgroup);
     Logger.log(`Sending a prompt (headlines): ${prompt}`);
 
-    let replyRaw = this.api.predict(prompt, this.history);
-    let reply = this._normalizeReply(replyRaw);
+    const reply = this._removeDuplicates(
+      this._predictCandidates(prompt, 'headlines', this.history),
+      adgroup.existing_headlines,
+      'headlines'
+    );
     Logger.log(
       `[AdGroup ${adgroup.adgroup_id}] Model's reply (normalized): ${reply}`
     );
@@ -934,44 +3847,30 @@ Input Keywords (one per line):
     }
     const MAX = Config.ads.rsa_headline_max_length;
     const MIN = Config.ads.rsa_headline_min_length;
-    let longLines = reply.filter(
-      line => line.length > MAX || line.length < MIN
-    );
-    const headlines = reply.filter(
-      line => line.length <= MAX && line.length >= MIN
-    );
-    if (longLines.length > 0) {
-      Logger.log(
-        `Model's response contains too long or too short headlines (${longLines.length} of ${reply.length}), trying to rewrite`
-      );
-      // 2nd attempt
-      prompt = this.getHeadlines2ndPrompt(adgroup, longLines);
-      Logger.log(`Sending 2nd prompt: ${prompt}`);
-      replyRaw = this.api.predict(prompt, this.history);
-      reply = this._normalizeReply(replyRaw);
-      Logger.log(
-        `[AdGroup ${adgroup.adgroup_id}] Model's 2nd reply (normalized): ${reply}`
-      );
-      const longLines2 = reply.filter(
-        line => line.length > MAX || line.length < MIN
-      );
-      if (longLines2.length) {
-        longLines = longLines2;
-      }
-      const newHeadlines = reply.filter(
-        line => line.length <= MAX && line.length >= MIN
-      );
-      headlines.push(...newHeadlines);
-
-      if (longLines2.length) {
-        Logger.log(
-          `WARNING: Model's response again (after 2nd prompt) contains too long/short headlines (${longLines2.length}):`
-        );
-        Logger.log(longLines2);
+    const headlines = reply.filter(line => isAdsLengthValid(line, MIN, MAX));
+    const longLines = this._repairTexts(
+      adgroup,
+      headlines,
+      reply.filter(line => !isAdsLengthValid(line, MIN, MAX)),
+      {
+        stage: 'headlines',
+        getPrompt: lines => this.getHeadlines2ndPrompt(adgroup, lines),
+        min: MIN,
+        max: MAX,
+        target: Config.generation.headlinesCount,
+        existing: adgroup.existing_headlines,
+        history: this.history,
       }
-    }
+    );
     const result = {
-      headlines: headlines, // good ones
+      // good ones
+      headlines: this._rankTexts(
+        adgroup,
+        headlines,
+        'headlines',
+        Config.generation.headlinesCount,
+        MAX
+      ),
       longHeadlines: longLines,
     };
 
@@ -985,21 +3884,40 @@ Input Keywords (one per line):
   getDescriptions(adgroup: AdGroup) {
     const prompt = this.getDescriptionsPrompt(adgroup);
     Logger.log(`Sending a prompt (descriptions): ${prompt}`);
+    const history: any[] = [];
 
-    const replyRaw = this.api.predict(prompt);
-    const reply = this._normalizeReply(replyRaw);
+    const reply = this._removeDuplicates(
+      this._predictCandidates(prompt, 'descriptions', history),
+      adgroup.existing_descriptions,
+      'descriptions'
+    );
     Logger.log(
       `[AdGeoup ${adgroup.adgroup_id}] Model's descriptions reply (normalized): ${reply}`
     );
-    // TODO: check for length and shorten if needed
 
     const MIN = Config.ads.rsa_description_min_length;
     const MAX = Config.ads.rsa_description_max_length;
-    const descriptions = reply.filter(
-      line => line.length <= MAX && line.length >= MIN
+    let descriptions = reply.filter(line => isAdsLengthValid(line, MIN, MAX));
+    const longLines = this._repairTexts(
+      adgroup,
+      descriptions,
+      reply.filter(line => !isAdsLengthValid(line, MIN, MAX)),
+      {
+        stage: 'descriptions',
+        getPrompt: lines => this.getDescriptions2ndPrompt(adgroup, lines),
+        min: MIN,
+        max: MAX,
+        target: Config.generation.descriptionsCount,
+        existing: adgroup.existing_descriptions,
+        history: history,
+      }
     );
-    const longLines = reply.filter(
-      line => line.length > MAX || line.length < MIN
+    descriptions = this._rankTexts(
+      adgroup,
+      descriptions,
+      'descriptions',
+      Config.generation.descriptionsCount,
+      MAX
     );
 
     Logger.log(
@@ -1015,18 +3933,183 @@ Input Keywords (one per line):
     return descriptions.join('\n');
   }
 
+  _normalizePath(text: string) {
+    return text.trim().replaceAll('/', '').replaceAll(/\s+/g, '-');
+  }
+
+  /**
+   * Call model through API to generate display paths (Path 1/Path 2) for an adgroup.
+   * @param {AdGroup} adgroup
+   * @returns {String[]} up to two paths
+   */
+  getPaths(adgroup: AdGroup): string[] {
+    const prompt = this.getPathsPrompt(adgroup);
+    Logger.log(`Sending a prompt (paths): ${prompt}`);
+    const history: any[] = [];
+
+    const reply = this._predictTexts(prompt, 'paths', history)
+      .map(this._normalizePath)
+      .filter(line => !!line);
+    Logger.log(
+      `[AdGroup ${adgroup.adgroup_id}] Model's paths reply (normalized): ${reply}`
+    );
+    const MIN = 1;
+    const MAX = Config.ads.rsa_path_max_length;
+    const paths = reply.filter(line => isAdsLengthValid(line, MIN, MAX));
+    this._repairTexts(
+      adgroup,
+      paths,
+      reply.filter(line => !isAdsLengthValid(line, MIN, MAX)),
+      {
+        stage: 'paths',
+        getPrompt: lines => this.getPaths2ndPrompt(adgroup, lines),
+        min: MIN,
+        max: MAX,
+        target: 2,
+        history: history,
+        normalize: this._normalizePath,
+      }
+    );
+    Logger.log(
+      `[AdGroup ${adgroup.adgroup_id}]: generated paths: ${paths.join(';')}`
+    );
+    return paths.slice(0, 2);
+  }
+
+  /**
+   * Remove repeats and near-duplicates of existing texts and of each other.
+   * @param {String[]} texts
+   * @param [String[]] existing
+   * @param {PredictionStage} stage
+   * @returns {String[]} unique texts
+   */
+  _removeDuplicates(
+    texts: string[],
+    existing: string[] | undefined,
+    stage: PredictionStage
+  ): string[] {
+    const res = findNearDuplicates(
+      removeRepeats(texts, existing),
+      this.similarityThreshold,
+      existing
+    );
+    if (res.duplicates.length) {
+      const details = res.duplicates
+        .map(dup => `"${dup.text}" ~ "${dup.similarTo}"`)
+        .join(', ');
+      Logger.log(`Near-duplicate ${stage} dropped: ${details}`);
+      this.status.push(
+        `${stage}: ${res.duplicates.length} near-duplicates dropped (${details})`
+      );
+    }
+    return res.unique;
+  }
+
+  /**
+   * Iteratively ask the model to rewrite texts with invalid length until
+   * there are enough valid texts or the max number of attempts is reached.
+   * @param {AdGroup} adgroup
+   * @param {String[]} valid - valid texts, rewritten ones are added to it
+   * @param {String[]} invalid - texts to rewrite
+   * @param {RepairOptions} options
+   * @returns {String[]} texts that are still invalid after the last attempt
+   */
+  _repairTexts(
+    adgroup: AdGroup,
+    valid: string[],
+    invalid: string[],
+    options: RepairOptions
+  ): string[] {
+    const { stage, min, max } = options;
+    for (
+      let attempt = 1;
+      attempt <= this.repairMaxAttempts &&
+      invalid.length > 0 &&
+      valid.length < options.target;
+      attempt++
+    ) {
+      Logger.log(
+        `Model's response contains too long or too short ${stage} (${invalid.length}), trying to rewrite (attempt ${attempt} of ${this.repairMaxAttempts})`
+      );
+      const prompt = options.getPrompt(invalid);
+      Logger.log(`Sending a rewrite prompt (${stage}): ${prompt}`);
+      let reply = this._removeDuplicates(
+        this._predictTexts(prompt, stage, options.history),
+        [...(options.existing || []), ...valid],
+        stage
+      );
+      if (options.normalize) {
+        reply = reply.map(options.normalize).filter(line => !!line);
+      }
+      Logger.log(
+        `[AdGroup ${adgroup.adgroup_id}] Model's rewrite reply #${attempt} (normalized): ${reply}`
+      );
+      valid.push(...reply.filter(line => isAdsLengthValid(line, min, max)));
+      invalid = reply.filter(line => !isAdsLengthValid(line, min, max));
+      if (!invalid.length) break;
+      Logger.log(
+        `WARNING: Model's response again (after rewrite #${attempt}) contains too long/short ${stage} (${invalid.length}):`
+      );
+      Logger.log(invalid);
+    }
+    return invalid;
+  }
+
+  /**
+   * Create a prompt for generating display paths for an adgroup.
+   * @param {AdGroup} adgroup
+   */
+  getPathsPrompt(adgroup: AdGroup) {
+    const customerName = this.customerName || ' a ';
+    return this._getPrompt(
+      this.promptPathsTemplate,
+      adgroup.keywords,
+      {
+        CUSTOMER_NAME: customerName,
+        URL: adgroup.url,
+        MAX: getModelLengthLimit(
+          Config.ads.rsa_path_max_length,
+          adgroup.keywords
+        ),
+        LANGUAGE: adgroup.language || Predictor.DEFAULT_LANGUAGE,
+        SUFFIX: this.configReader.getValue(SETTINGS.LLM_Prompt_Paths_Suffix),
+      },
+      'paths'
+    );
+  }
+
   /**
    * Create a prompt for generating headlines for an adgroup's keywords.
    * @param {AdGroup} adgroup
    */
   getHeadlinesPrompt(adgroup: AdGroup) {
     const customerName = this.customerName || ' a ';
-    return this._getPrompt(this.promptHeadlinesTemplate, adgroup.keywords, {
-      CUSTOMER_NAME: customerName,
-      MIN: Config.ads.rsa_headline_min_length,
-      MAX: Config.ads.rsa_headline_max_length,
-      SUFFIX: this.configReader.getValue(SETTINGS.LLM_Prompt_Headlines_Suffix),
-    });
+    return this._getPrompt(
+      this.promptHeadlinesTemplate,
+      adgroup.keywords,
+      {
+        CUSTOMER_NAME: customerName,
+        MIN: getModelLengthLimit(
+          Config.ads.rsa_headline_min_length,
+          adgroup.keywords
+        ),
+        MAX: getModelLengthLimit(
+          Config.ads.rsa_headline_max_length,
+          adgroup.keywords
+        ),
+        EXISTING_HEADLINES: adgroup.existing_headlines,
+        EXISTING_DESCRIPTIONS: adgroup.existing_descriptions,
+        LANDING_PAGE: this._getLandingPage(
+          this.promptHeadlinesTemplate,
+          adgroup
+        ),
+        LANGUAGE: adgroup.language || Predictor.DEFAULT_LANGUAGE,
+        SUFFIX: this.configReader.getValue(
+          SETTINGS.LLM_Prompt_Headlines_Suffix
+        ),
+      },
+      'headlines'
+    );
   }
 
   /**
@@ -1036,12 +4119,66 @@ Input Keywords (one per line):
    */
   getHeadlines2ndPrompt(adgroup: AdGroup, long_lines: string[]) {
     const promptTemplate = this.promptHeadlinesShortenTemplate;
-    const longHeadlines = long_lines.map(line => '* ' + line).join('\n');
-    return this._getPrompt(promptTemplate, undefined, {
-      HEADLINES: longHeadlines,
-      MIN: Config.ads.rsa_headline_min_length,
-      MAX: Config.ads.rsa_headline_max_length,
-    });
+    return this._getPrompt(
+      promptTemplate,
+      undefined,
+      {
+        HEADLINES: long_lines,
+        MIN: getModelLengthLimit(
+          Config.ads.rsa_headline_min_length,
+          long_lines.join('')
+        ),
+        MAX: getModelLengthLimit(
+          Config.ads.rsa_headline_max_length,
+          long_lines.join('')
+        ),
+      },
+      'headlines'
+    );
+  }
+
+  /**
+   * Create a prompt for rewriting descriptions that exceeded the limits
+   * @param {AdGroup} adgroup
+   * @param {string[]} long_lines
+   */
+  getDescriptions2ndPrompt(adgroup: AdGroup, long_lines: string[]) {
+    return this._getPrompt(
+      this.promptDescriptionsShortenTemplate,
+      undefined,
+      {
+        DESCRIPTIONS: long_lines,
+        MIN: getModelLengthLimit(
+          Config.ads.rsa_description_min_length,
+          long_lines.join('')
+        ),
+        MAX: getModelLengthLimit(
+          Config.ads.rsa_description_max_length,
+          long_lines.join('')
+        ),
+      },
+      'descriptions'
+    );
+  }
+
+  /**
+   * Create a prompt for rewriting display paths that exceeded the maximum
+   * @param {AdGroup} adgroup
+   * @param {string[]} long_lines
+   */
+  getPaths2ndPrompt(adgroup: AdGroup, long_lines: string[]) {
+    return this._getPrompt(
+      this.promptPathsShortenTemplate,
+      undefined,
+      {
+        PATHS: long_lines,
+        MAX: getModelLengthLimit(
+          Config.ads.rsa_path_max_length,
+          long_lines.join('')
+        ),
+      },
+      'paths'
+    );
   }
 
   /**
@@ -1051,83 +4188,351 @@ Input Keywords (one per line):
   getDescriptionsPrompt(adgroup: AdGroup) {
     const customerName = this.customerName || ' a ';
     const promptTemplate = this.promptDescriptionsTemplate;
-    return this._getPrompt(promptTemplate, adgroup.keywords, {
-      CUSTOMER_NAME: customerName,
-      HEADLINES: adgroup.all_headlines!.join('\n'),
-      MIN: Config.ads.rsa_description_min_length,
-      MAX: Config.ads.rsa_description_max_length,
+    return this._getPrompt(
+      promptTemplate,
+      adgroup.keywords,
+      {
+        CUSTOMER_NAME: customerName,
+        HEADLINES: adgroup.all_headlines,
+        MIN: getModelLengthLimit(
+          Config.ads.rsa_description_min_length,
+          adgroup.keywords
+        ),
+        MAX: getModelLengthLimit(
+          Config.ads.rsa_description_max_length,
+          adgroup.keywords
+        ),
+        EXISTING_HEADLINES: adgroup.existing_headlines,
+        EXISTING_DESCRIPTIONS: adgroup.existing_descriptions,
+        LANDING_PAGE: this._getLandingPage(promptTemplate, adgroup),
+        LANGUAGE: adgroup.language || Predictor.DEFAULT_LANGUAGE,
+        SUFFIX: this.configReader.getValue(
+          SETTINGS.LLM_Prompt_Descriptions_Suffix
+        ),
+      },
+      'descriptions'
+    );
+  }
+
+  /**
+   * Call model through API to generate customizer feed values for keywords.
+   * The model replies with keyword-value pairs, values of missing keywords or
+   * invalid ones are requested again (only for these keywords) up to
+   * repairMaxAttempts times.
+   * @param {String[]} keywords
+   * @param [CustomizerAttribute] attribute - attribute to generate values of
+   *  (its prompt is used instead of the default one if specified)
+   * @param [String] language - target language (detected from keywords
+   *  if omitted)
+   * @returns values by keywords (only for resolved keywords)
+   */
+  getCustomizers(
+    keywords: string[],
+    attribute?: CustomizerAttribute,
+    language?: string
+  ): Record<string, CustomizerValue> {
+    const result: Record<string, CustomizerValue> = {};
+    // values are validated as texts for headlines by default
+    const target = attribute || {
+      name: '',
+      type: CustomizerType.Text,
+      prompt: '',
+      maxLength: Config.ads.rsa_headline_max_length,
+    };
+    let pending = Array.from(new Set(keywords.filter(kw => !!kw)));
+    for (
+      let attempt = 0;
+      attempt <= this.repairMaxAttempts && pending.length;
+      attempt++
+    ) {
+      const replyValues = this._predictCustomizers(
+        pending,
+        attribute,
+        language
+      );
+      const invalid: string[] = [];
+      for (const kw of pending) {
+        const value = replyValues[kw.trim().toLocaleLowerCase()];
+        const error =
+          value === undefined
+            ? 'missing'
+            : validateCustomizerValue(value, target);
+        if (error) {
+          Logger.log(
+            `WARNING: customizer value for keyword "${kw}" is invalid (${error}): ${value}`
+          );
+          invalid.push(kw);
+          continue;
+        }
+        result[kw] = {
+          value: value,
+          method: attempt
+            ? CustomizerValueMethod.LlmRetry
+            : CustomizerValueMethod.Llm,
+        };
+      }
+      if (invalid.length && attempt < this.repairMaxAttempts) {
+        Logger.log(
+          `Requesting customizer values again for ${
+            invalid.length
+          } keywords (attempt ${attempt + 1} of ${this.repairMaxAttempts})`
+        );
+      }
+      pending = invalid;
+    }
+    return result;
+  }
+
+  /**
+   * Request customizer values for keywords.
+   * If a prompt with all the keywords doesn't fit into the token budget,
+   * they are split into several requests.
+   * @param {String[]} keywords
+   * @param [CustomizerAttribute] attribute
+   * @param [String] language - target language
+   * @returns values by lowercased keywords (empty if the reply is invalid)
+   */
+  _predictCustomizers(
+    keywords: string[],
+    attribute?: CustomizerAttribute,
+    language?: string
+  ): Record<string, string> {
+    const keywords_str = keywords.join('\n');
+    const template = attribute?.prompt || this.promptCustomizersTemplate;
+    const args = {
+      CUSTOMER_NAME: this.customerName,
+      LANGUAGE: language || Predictor.DEFAULT_LANGUAGE,
+      MIN: getModelLengthLimit(
+        Config.ads.rsa_headline_min_length,
+        keywords_str
+      ),
+      MAX: getModelLengthLimit(
+        attribute?.maxLength || Config.ads.rsa_headline_max_length,
+        keywords_str
+      ),
+      ATTRIBUTE: attribute?.name || '',
+      TYPE: attribute?.type || CustomizerType.Text,
       SUFFIX: this.configReader.getValue(
-        SETTINGS.LLM_Prompt_Descriptions_Suffix
+        SETTINGS.LLM_Prompt_Customizers_Suffix
       ),
-    });
+    };
+    const render = (keywordsArr: string[]) =>
+      renderTemplate(template, { ...args, KEYWORDS: keywordsArr.join('\n') });
+    const budget = this.tokenBudgets.customizers;
+    const values: Record<string, string> = {};
+    let rest = keywords;
+    while (rest.length) {
+      const count =
+        budget && this._countTokens(render(rest), budget) > budget
+          ? this._countFittingKeywords(render, rest, budget)
+          : rest.length;
+      if (count < rest.length) {
+        Logger.log(
+          `Requesting customizer values for ${count} of ${rest.length} keywords to fit the token budget (${budget})`
+        );
+      }
+      const prompt = this._getPrompt(
+        template,
+        rest.slice(0, count).join('\n'),
+        args,
+        'customizers'
+      );
+      rest = rest.slice(count);
+      const res = this._predictJson(prompt, 'customizers');
+      if (res.error) {
+        Logger.log(
+          `WARNING: model's reply (customizers) again does not match the schema: ${res.error}`
+        );
+        this.status.push(
+          `customizers: reply did not match the schema (${res.error})`
+        );
+        continue;
+      }
+      for (const item of res.value) {
+        values[item.keyword.trim().toLocaleLowerCase()] = this._normalizeAdText(
+          item.value
+        ).trim();
+      }
+    }
+    return values;
   }
 
   /**
-   * Call model through API to generate customizer feed values for an adgroup.
-   * @param {AdGroup} adgroup
+   * Ask the model to find texts not in a language.
+   * @param {String[]} texts - ads texts
+   * @param {String} language - target language
+   * @returns {String[]} texts not in the language
    */
-  getCustomizers(keywords: string[]) {
-    const keywords_str = keywords.join('\n');
+  checkLanguage(texts: string[], language: string): string[] {
+    if (!texts.length) return [];
     const prompt = this._getPrompt(
-      this.promptCustomizersTemplate,
-      keywords_str,
+      this.promptLanguageCheckTemplate,
+      undefined,
       {
-        CUSTOMER_NAME: this.customerName,
-        MIN: Config.ads.rsa_headline_min_length,
-        MAX: Config.ads.rsa_headline_max_length,
-        SUFFIX: this.configReader.getValue(
-          SETTINGS.LLM_Prompt_Customizers_Suffix
-        ),
-      }
+        LANGUAGE: language,
+        TEXTS: texts,
+      },
+      'language'
     );
-    const replyRaw = this.api.predict(prompt);
-    const reply = this._normalizeReply(replyRaw);
-    return reply;
+    Logger.log(`Sending a prompt (language): ${prompt}`);
+    const reply = this._predictTexts(prompt, 'language', []).map(text =>
+      text.trim().toLocaleLowerCase()
+    );
+    // the model is asked to return texts as is, but only given ones are used
+    return texts.filter(text =>
+      reply.includes(text.trim().toLocaleLowerCase())
+    );
+  }
+
+  /**
+   * Account usage of the last model call.
+   * @param {PredictionStage} stage
+   */
+  _trackUsage(stage: PredictionStage) {
+    this.usage?.add(stage, this.api.modelName || '', this.api.lastUsage);
+  }
+
+  /**
+   * Get content of an adgroup's landing page if a prompt uses it.
+   * @param {String} promptTemplate
+   * @param {AdGroup} adgroup
+   * @returns {String}
+   */
+  _getLandingPage(promptTemplate: string, adgroup: AdGroup) {
+    if (!/\{(#if\s+)?LANDING_PAGE\b/.test(promptTemplate) || !adgroup.url) {
+      return '';
+    }
+    return getLandingPageContent(adgroup.url);
+  }
+
+  /**
+   * Count tokens of a prompt. The model's API is used only if the local
+   * estimate is close to the budget (to save requests).
+   * @param {String} prompt
+   * @param {Number} budget
+   * @returns {Number}
+   */
+  _countTokens(prompt: string, budget: number) {
+    const estimate = estimateTokens(prompt);
+    if (estimate < budget / 2 || !this.api.countTokens) return estimate;
+    return this.api.countTokens(prompt) ?? estimate;
   }
 
+  /**
+   * Find the max number of keywords (in priority order) fitting into the
+   * budget, given that all of them don't fit.
+   * @param render - renders a prompt for keywords
+   * @param {String[]} keywordsArr
+   * @param {Number} budget
+   * @returns {Number} the number of first keywords to keep (at least one)
+   */
+  _countFittingKeywords(
+    render: (keywordsArr: string[]) => string,
+    keywordsArr: string[],
+    budget: number
+  ) {
+    let low = 1;
+    let high = keywordsArr.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (
+        this._countTokens(render(keywordsArr.slice(0, mid)), budget) <= budget
+      ) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Create a prompt from a template fitting into the stage's token budget.
+   * If the prompt is too long, then landing page content is cut, and then
+   * near-duplicate keywords are removed and the least prioritized keywords
+   * (the last ones, as they are sorted by clicks) are dropped (except for
+   * customizers, their keywords are split into several requests instead).
+   * @param {String} promptTemplate
+   * @param [String] keywords - keywords (one per line) for the KEYWORDS macro
+   * @param {Object} args - values of other macros
+   * @param [PredictionStage] stage - stage to take a budget for
+   *  (without it the prompt is not checked)
+   * @returns {String}
+   */
   _getPrompt(
     promptTemplate: string,
     keywords: string | undefined,
-    args: Record<string, any>
+    args: Record<string, any>,
+    stage?: PredictionStage
   ) {
-    let prompt = promptTemplate;
-    if (!keywords) {
-      for (const name of Object.keys(args)) {
-        prompt = prompt.replaceAll(
-          '{' + name + '}',
-          args[name] === undefined || args[name] === null ? '' : args[name]
-        );
-      }
-      if (prompt.length >= Config.vertexAi.maxRequestLength) {
-        Logger.log(
-          `WARNING: prompt's length (${prompt.length}) after substitution is longer that the model's limit (${Config.vertexAi.maxRequestLength}):\n${prompt}`
-        );
-      }
-      return prompt;
-    }
-    const keywordsArr = keywords.split('\n');
-    let itemNum = keywordsArr.length;
-
-    // we have to limit length of input
-    do {
-      prompt = promptTemplate;
-      for (const name of Object.keys(args)) {
-        prompt = prompt.replaceAll(
-          '{' + name + '}',
-          args[name] === undefined || args[name] === null ? '' : args[name]
+    const render = (keywordsArr?: string[]) =>
+      renderTemplate(
+        promptTemplate,
+        keywordsArr ? { ...args, KEYWORDS: keywordsArr.join('\n') } : args
+      );
+    const budget = stage ? this.tokenBudgets[stage] : undefined;
+    let keywordsArr = keywords === undefined ? undefined : keywords.split('\n');
+    let prompt = render(keywordsArr);
+    if (!budget) return prompt;
+    let tokens = this._countTokens(prompt, budget);
+    if (tokens <= budget) return prompt;
+
+    if (args.LANDING_PAGE) {
+      // landing page content is cut for the prompt to fit into the budget
+      const rest = this._countTokens(
+        renderTemplate(promptTemplate, {
+          ...args,
+          LANDING_PAGE: '',
+          ...(keywordsArr ? { KEYWORDS: keywordsArr.join('\n') } : {}),
+        }),
+        budget
+      );
+      const available = Math.max(budget - rest - 1, 0);
+      Logger.log(
+        `Landing page content (${args.LANDING_PAGE.length} chars) is truncated to ${available} tokens to fit the prompt`
+      );
+      args = {
+        ...args,
+        LANDING_PAGE: truncateToTokens(args.LANDING_PAGE, available),
+      };
+      prompt = render(keywordsArr);
+      tokens = this._countTokens(prompt, budget);
+    }
+    if (
+      tokens > budget &&
+      keywordsArr &&
+      keywordsArr.length > 1 &&
+      // customizers are generated for each keyword, so they can't be removed
+      stage !== 'customizers'
+    ) {
+      const total = keywordsArr.length;
+      keywordsArr = findNearDuplicates(
+        keywordsArr,
+        this.similarityThreshold
+      ).unique;
+      prompt = render(keywordsArr);
+      tokens = this._countTokens(prompt, budget);
+      if (tokens > budget) {
+        keywordsArr = keywordsArr.slice(
+          0,
+          this._countFittingKeywords(render, keywordsArr, budget)
         );
+        prompt = render(keywordsArr);
+        tokens = this._countTokens(prompt, budget);
       }
-      prompt = prompt.replace('{KEYWORDS}', keywords);
-      itemNum -= 1;
-      if (itemNum === 0) {
-        break;
-      }
-      // remove the last keyword and repeat
-      keywords = keywordsArr.slice(0, itemNum - 1).join('\n');
-      if (itemNum < keywordsArr.length - 1) {
-        Logger.log(`request is too long (${prompt.length}), shortening`);
-      }
-    } while (prompt.length >= Config.vertexAi.maxRequestLength);
+      const dropped = total - keywordsArr.length;
+      Logger.log(
+        `${dropped} of ${total} keywords were dropped to fit the prompt (${stage}) into the token budget (${budget})`
+      );
+      this.status.push(
+        `${dropped} of ${total} keywords dropped to fit the token budget (${stage})`
+      );
+    }
+    if (tokens > budget) {
+      Logger.log(
+        `WARNING: prompt (${stage}) has ${tokens} tokens which is more than the budget (${budget}):\n${prompt}`
+      );
+    }
     return prompt;
   }
 }
@@ -0,0 +1,469 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { IConfigReader, SETTINGS } from './config';
+import { fetchJson } from './interop';
+import { ModelUsage } from './model-api';
+import { JsonSchema } from './schema';
+import { GeminiVertexApi } from './vertex-api';
+
+/**
+ * Batch generation: prompts of all rows of a sheet are sent as one
+ * asynchronous batch prediction job, its status is polled by time-based
+ * triggers, and once it completes replies are parsed into the sheet
+ * (see https://cloud.google.com/vertex-ai/generative-ai/docs/multimodal/batch-prediction-gemini).
+ */
+
+export interface BatchRequest {
+  /** unique key to match the request's result (lowercase letters, digits, "-" and "_") */
+  key: string;
+  prompt: string;
+  responseSchema?: JsonSchema;
+  /** generateContent payload (the endpoint creates it if omitted) */
+  payload?: any;
+}
+
+export interface BatchResult {
+  key: string;
+  reply?: string;
+  /** the request failed or was blocked */
+  error?: string;
+  usage?: ModelUsage;
+}
+
+export enum BatchJobState {
+  Pending = 'pending',
+  Running = 'running',
+  Succeeded = 'succeeded',
+  Failed = 'failed',
+  Cancelled = 'cancelled',
+}
+
+export interface BatchJob {
+  /** job's id (a resource name for Vertex AI) */
+  name: string;
+  state: BatchJobState;
+  /** location of the job's output */
+  outputUri?: string;
+  error?: string;
+}
+
+/**
+ * A service running batch prediction jobs.
+ */
+export interface IBatchEndpoint {
+  modelName: string;
+  /**
+   * Submit a job for requests.
+   * @param {String} displayName
+   * @param {BatchRequest[]} requests
+   * @returns {BatchJob}
+   */
+  submit(displayName: string, requests: BatchRequest[]): BatchJob;
+  /**
+   * Get a job's current state.
+   * @param {String} name
+   * @returns {BatchJob}
+   */
+  getJob(name: string): BatchJob;
+  /**
+   * Read results of a succeeded job.
+   * @param {BatchJob} job
+   * @returns {BatchResult[]}
+   */
+  getResults(job: BatchJob): BatchResult[];
+  cancel(name: string): void;
+}
+
+/**
+ * Serialize requests into a JSONL file for a batch prediction job.
+ * A request's key is passed in labels which are returned along with results.
+ * @param {BatchRequest[]} requests
+ * @param createPayload - creates a generateContent payload for a request
+ *  without one
+ * @returns {String}
+ */
+export function serializeBatchRequests(
+  requests: BatchRequest[],
+  createPayload: (request: BatchRequest) => any
+): string {
+  return requests
+    .map(request =>
+      JSON.stringify({
+        request: {
+          ...(request.payload || createPayload(request)),
+          labels: { key: request.key },
+        },
+      })
+    )
+    .join('\n');
+}
+
+/**
+ * Parse an output file of a batch prediction job (JSONL with a line per
+ * request, each one has the request, its response and a status).
+ * @param {String} jsonl
+ * @returns {BatchResult[]} results of requests with keys
+ */
+export function parseBatchOutput(jsonl: string): BatchResult[] {
+  const results: BatchResult[] = [];
+  for (const line of (jsonl || '').split('\n')) {
+    if (!line.trim()) continue;
+    let item;
+    try {
+      item = JSON.parse(line);
+    } catch (e) {
+      Logger.log(`WARNING: failed to parse a line of batch output: ${e}`);
+      continue;
+    }
+    const key = item.request?.labels?.key;
+    if (!key) {
+      Logger.log(`WARNING: batch output line without a key: ${line}`);
+      continue;
+    }
+    const response = item.response;
+    const result: BatchResult = { key };
+    if (response?.usageMetadata) {
+      result.usage = {
+        promptTokens: response.usageMetadata.promptTokenCount || 0,
+        candidatesTokens: response.usageMetadata.candidatesTokenCount || 0,
+        totalTokens: response.usageMetadata.totalTokenCount || 0,
+      };
+    }
+    const candidate = response?.candidates?.[0];
+    if (item.status) {
+      result.error = item.status;
+    } else if (response?.promptFeedback?.blockReason) {
+      result.error = `blocked by safety filters (${response.promptFeedback.blockReason})`;
+    } else if (!candidate?.content) {
+      result.error = `empty response (${
+        candidate?.finishReason || 'no candidates'
+      })`;
+    } else {
+      result.reply = (candidate.content.parts || [])
+        .map((part: any) => part.text || '')
+        .join('');
+    }
+    results.push(result);
+  }
+  return results;
+}
+
+/**
+ * Check a job's status and read its results if it has succeeded.
+ * @param {IBatchEndpoint} endpoint
+ * @param {String} name - job's name
+ * @returns the job and its results by keys (only if the job has succeeded)
+ */
+export function pollBatchJob(
+  endpoint: IBatchEndpoint,
+  name: string
+): { job: BatchJob; results?: Record<string, BatchResult> } {
+  const job = endpoint.getJob(name);
+  if (job.state !== BatchJobState.Succeeded) {
+    return { job };
+  }
+  const results: Record<string, BatchResult> = {};
+  for (const result of endpoint.getResults(job)) {
+    results[result.key] = result;
+  }
+  return { job, results };
+}
+
+// states of Vertex AI jobs (see https://cloud.google.com/vertex-ai/docs/reference/rest/v1/JobState)
+const VERTEX_JOB_STATES: Record<string, BatchJobState> = {
+  JOB_STATE_QUEUED: BatchJobState.Pending,
+  JOB_STATE_PENDING: BatchJobState.Pending,
+  JOB_STATE_RUNNING: BatchJobState.Running,
+  JOB_STATE_UPDATING: BatchJobState.Running,
+  JOB_STATE_SUCCEEDED: BatchJobState.Succeeded,
+  JOB_STATE_FAILED: BatchJobState.Failed,
+  JOB_STATE_EXPIRED: BatchJobState.Failed,
+  JOB_STATE_CANCELLING: BatchJobState.Cancelled,
+  JOB_STATE_CANCELLED: BatchJobState.Cancelled,
+};
+
+/**
+ * Parse a Cloud Storage URI.
+ * @param {String} uri - gs://bucket/path
+ * @returns bucket and path (without trailing "/")
+ */
+export function parseStorageUri(uri: string): { bucket: string; path: string } {
+  const match = (uri || '').trim().match(/^gs:\/\/([^/]+)\/?(.*)$/);
+  if (!match) {
+    throw new Error(
+      `Invalid Cloud Storage URI "${uri}" (expected gs://bucket/path)`
+    );
+  }
+  return { bucket: match[1], path: match[2].replace(/\/+$/, '') };
+}
+
+/**
+ * Batch prediction jobs in Vertex AI with request and result files
+ * in Cloud Storage.
+ */
+export class VertexBatchEndpoint implements IBatchEndpoint {
+  api: GeminiVertexApi;
+  modelName: string;
+  url: string;
+  bucket: string;
+  path: string;
+
+  /**
+   * @param {GeminiVertexApi} api - the model API to create request payloads
+   * @param {IConfigReader} configReader
+   */
+  constructor(api: GeminiVertexApi, configReader: IConfigReader) {
+    const storage = configReader.getValue(SETTINGS.GENERATION_batch_storage);
+    if (!storage) {
+      throw new Error(
+        `Please specify a Cloud Storage folder for batch files in ${SETTINGS.GENERATION_batch_storage} on the Configuration sheet`
+      );
+    }
+    const { bucket, path } = parseStorageUri(storage);
+    this.api = api;
+    this.modelName = api.modelName;
+    this.bucket = bucket;
+    this.path = path;
+    this.url = `https://${api.location}-aiplatform.googleapis.com/v1`;
+  }
+
+  submit(displayName: string, requests: BatchRequest[]): BatchJob {
+    const folder = (this.path ? this.path + '/' : '') + displayName;
+    const content = serializeBatchRequests(requests, request =>
+      this.api.createPayload(
+        [{ role: 'user', parts: [{ text: request.prompt }] }],
+        1,
+        { responseSchema: request.responseSchema }
+      )
+    );
+    fetchJson(
+      `https://storage.googleapis.com/upload/storage/v1/b/${
+        this.bucket
+      }/o?uploadType=media&name=${encodeURIComponent(folder + '/input.jsonl')}`,
+      {
+        method: 'POST',
+        contentType: 'application/jsonl',
+        headers: this._getHeaders(),
+        payload: content,
+        muteHttpExceptions: true,
+      }
+    );
+    Logger.log(
+      `Uploaded ${requests.length} batch requests to gs://${this.bucket}/${folder}/input.jsonl`
+    );
+    const res = fetchJson(
+      `${this.url}/projects/${this.api.projectId}/locations/${this.api.location}/batchPredictionJobs`,
+      {
+        method: 'POST',
+        headers: this._getHeaders(),
+        payload: {
+          displayName,
+          model: `publishers/google/models/${this.modelName}`,
+          inputConfig: {
+            instancesFormat: 'jsonl',
+            gcsSource: { uris: [`gs://${this.bucket}/${folder}/input.jsonl`] },
+          },
+          outputConfig: {
+            predictionsFormat: 'jsonl',
+            gcsDestination: {
+              outputUriPrefix: `gs://${this.bucket}/${folder}/output`,
+            },
+          },
+        },
+        muteHttpExceptions: true,
+      }
+    );
+    return this._parseJob(res);
+  }
+
+  getJob(name: string): BatchJob {
+    const res = fetchJson(`${this.url}/${name}`, {
+      method: 'GET',
+      headers: this._getHeaders(),
+      muteHttpExceptions: true,
+    });
+    return this._parseJob(res);
+  }
+
+  getResults(job: BatchJob): BatchResult[] {
+    if (!job.outputUri) {
+      throw new Error(`Batch job ${job.name} has no output`);
+    }
+    const { bucket, path } = parseStorageUri(job.outputUri);
+    const list = fetchJson(
+      `https://storage.googleapis.com/storage/v1/b/${bucket}/o?prefix=${encodeURIComponent(
+        path + '/'
+      )}`,
+      {
+        method: 'GET',
+        headers: this._getHeaders(),
+        muteHttpExceptions: true,
+      }
+    );
+    const results: BatchResult[] = [];
+    for (const item of list.items || []) {
+      if (!item.name.endsWith('.jsonl')) continue;
+      // output files are JSONL, so they can't be fetched via fetchJson
+      const response = UrlFetchApp.fetch(
+        `https://storage.googleapis.com/storage/v1/b/${bucket}/o/${encodeURIComponent(
+          item.name
+        )}?alt=media`,
+        { headers: this._getHeaders(), muteHttpExceptions: true }
+      );
+      if (response.getResponseCode() !== 200) {
+        throw new Error(
+          `Failed to read batch output gs://${bucket}/${
+            item.name
+          }: ${response.getContentText()}`
+        );
+      }
+      results.push(...parseBatchOutput(response.getContentText()));
+    }
+    return results;
+  }
+
+  cancel(name: string) {
+    fetchJson(`${this.url}/${name}:cancel`, {
+      method: 'POST',
+      headers: this._getHeaders(),
+      payload: {},
+      muteHttpExceptions: true,
+    });
+  }
+
+  _getHeaders() {
+    return { authorization: `Bearer ${ScriptApp.getOAuthToken()}` };
+  }
+
+  _parseJob(res: any): BatchJob {
+    return {
+      name: res.name,
+      state: VERTEX_JOB_STATES[res.state] || BatchJobState.Pending,
+      outputUri: res.outputInfo?.gcsOutputDirectory,
+      error: res.error?.message,
+    };
+  }
+}
+
+/**
+ * Phases of batch generation, each one is a separate job:
+ * headlines and paths, then descriptions (they need generated headlines),
+ * and finally rewriting too long texts.
+ */
+export type BatchPhase = 'headlines' | 'descriptions' | 'shorten';
+
+/**
+ * Persistent state of a batch generation.
+ */
+export interface BatchGeneration {
+  runId: string;
+  /** name of a sheet with keywords */
+  sheetName: string;
+  phase: BatchPhase;
+  /** the current phase's job */
+  job: BatchJob;
+  /** number of requests in the current job */
+  requests: number;
+  /** number of status checks of the current job */
+  polls: number;
+  /**
+   * results of the current job are written to the sheet
+   * (and only the next phase's job is left to submit)
+   */
+  written?: boolean;
+  /** number of consecutive checks that failed with an error */
+  failures?: number;
+  /** the last error (of a check or of the job) */
+  error?: string;
+  /** the generation is stopped because of errors */
+  failed?: boolean;
+  startedAt: string;
+  updatedAt: string;
+}
+
+const BATCH_PROPERTY = 'BATCH_GENERATION';
+
+/**
+ * Load a current batch generation (if any) from document properties.
+ * @returns {BatchGeneration|undefined}
+ */
+export function loadBatchGeneration(): BatchGeneration | undefined {
+  const value =
+    PropertiesService.getDocumentProperties().getProperty(BATCH_PROPERTY);
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    Logger.log(`WARNING: failed to parse batch generation state: ${e}`);
+    return undefined;
+  }
+}
+
+/**
+ * Save a batch generation's state to document properties.
+ * @param {BatchGeneration} run
+ */
+export function saveBatchGeneration(run: BatchGeneration) {
+  run.updatedAt = new Date().toISOString();
+  PropertiesService.getDocumentProperties().setProperty(
+    BATCH_PROPERTY,
+    JSON.stringify(run)
+  );
+}
+
+export function clearBatchGeneration() {
+  PropertiesService.getDocumentProperties().deleteProperty(BATCH_PROPERTY);
+}
+
+/**
+ * Create a new batch generation for a sheet (its job is submitted later).
+ * @param {String} sheetName
+ * @returns {BatchGeneration}
+ */
+export function createBatchGeneration(sheetName: string): BatchGeneration {
+  const now = new Date().toISOString();
+  return {
+    runId: Utilities.getUuid(),
+    sheetName,
+    phase: 'headlines',
+    job: { name: '', state: BatchJobState.Pending },
+    requests: 0,
+    polls: 0,
+    startedAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Describe a batch generation's state for users.
+ * @param {BatchGeneration} run
+ * @returns {String}
+ */
+export function formatBatchGeneration(run: BatchGeneration): string {
+  return [
+    `Batch generation: ${run.runId}${run.failed ? ' (failed)' : ''}`,
+    `Sheet: ${run.sheetName}`,
+    `Phase: ${run.phase}`,
+    `Job: ${run.job.name} (${run.job.state})`,
+    `Requests: ${run.requests}`,
+    `Status checks: ${run.polls}`,
+    ...(run.error ? [`Last error: ${run.error}`] : []),
+    `Started: ${run.startedAt}`,
+    `Updated: ${run.updatedAt}`,
+  ].join('\n');
+}
@@ -29,7 +29,7 @@
  limitations under the License.
  */
 
-import { generate_rsa } from './app';
+import { estimateRunUsage, generate_rsa } from './app';
 
 export const clientside = null;
 
@@ -52,6 +52,13 @@ export function get_sheet_state_ui() {
   return response;
 }
 
+export function estimate_usage_ui(input: string) {
+  const range = JSON.parse(input);
+  const estimate = estimateRunUsage(SpreadsheetApp.getActiveSheet(), range);
+  Logger.log('estimate_usage_ui: ' + JSON.stringify(estimate));
+  return JSON.stringify(estimate);
+}
+
 export function generate_rsa_ui(input: string) {
   console.log('generate_rsa_ui: stating job: ' + input);
   const job = JSON.parse(input);
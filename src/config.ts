@@ -14,30 +14,55 @@
  * limitations under the License.
  */
 import { Predictor } from './app';
+import { OVERRIDES_COLUMNS } from './overrides';
+import { CUSTOMIZERS_COLUMNS, CUSTOMIZER_PROMPT_MACROS } from './customizers';
+import { validateTemplate } from './template';
 
 interface Settings {
   CID: string;
   MCC: string;
   CAMPAIGN: string;
   MAX_KEYWORDS: string;
+  KEYWORDS_metric: string;
+  KEYWORDS_lookback_days: string;
+  KEYWORDS_match_types: string;
+  KEYWORDS_statuses: string;
+  KEYWORDS_search_terms_count: string;
+  KEYWORDS_include_adgroups_without_metrics: string;
   ADS_DEV_TOKEN: string;
   ADS_API_VERSION: string;
   ADS_INTERNAL_PROXY: string;
   CLOUD_PROJECT_ID: string;
   CLOUD_PROJECT_REGION: string;
   CUSTOMER_NAME: string;
+  LLM_Provider: string;
   LLM_Name: string;
   LLM_Uri: string;
+  LLM_API_KEY: string;
   LLM_Params_temperature: string;
   LLM_Params_topK: string;
   LLM_Params_topP: string;
+  LLM_Structured_Output: string;
+  LLM_Cache: string;
+  LLM_Record_Mode: string;
+  LLM_Replay_File: string;
+  LLM_Prices: string;
+  LLM_Repair_Max_Attempts: string;
+  LLM_Prompt_Token_Budget: string;
   LLM_Prompt_Headlines: string;
   LLM_Prompt_Headlines_Shorten: string;
   LLM_Prompt_Descriptions: string;
+  LLM_Prompt_Descriptions_Shorten: string;
   LLM_Prompt_Customizers: string;
+  LLM_Prompt_Paths: string;
+  LLM_Prompt_Paths_Shorten: string;
   LLM_Prompt_Headlines_Suffix: string;
   LLM_Prompt_Descriptions_Suffix: string;
   LLM_Prompt_Customizers_Suffix: string;
+  LLM_Prompt_Paths_Suffix: string;
+  LLM_Prompt_Language_Check: string;
+  LLM_Prompt_Judge: string;
+  LLM_Language_Check: string;
   LLM_SAFETY_HARM_CATEGORY_SEXUALLY_EXPLICIT: string;
   LLM_SAFETY_HARM_CATEGORY_HATE_SPEECH: string;
   LLM_SAFETY_HARM_CATEGORY_HARASSMENT: string;
@@ -46,8 +71,18 @@ interface Settings {
   ADSEDITOR_add_long_descriptions: string;
   ADSEDITOR_add_generic_headlines: string;
   ADSEDITOR_add_generic_descriptions: string;
+  ADSEDITOR_pinning_rules: string;
+  ADSEDITOR_exclude_flagged: string;
+  LINTER_trademarks: string;
+  DEDUPE_similarity_threshold: string;
+  GENERATION_mode: string;
+  GENERATION_candidates: string;
+  GENERATION_candidates_method: string;
+  GENERATION_judge: string;
+  GENERATION_batch_storage: string;
   ADS_CUSTOMIZER_NAME: string;
   ADS_CUSTOMIZER_use_llm: string;
+  ADS_PUBLISH_STATUS: string;
   LOGGING: string;
 }
 export const SETTINGS: Settings = {
@@ -55,24 +90,46 @@ export const SETTINGS: Settings = {
   MCC: '',
   CAMPAIGN: '',
   MAX_KEYWORDS: '',
+  KEYWORDS_metric: '',
+  KEYWORDS_lookback_days: '',
+  KEYWORDS_match_types: '',
+  KEYWORDS_statuses: '',
+  KEYWORDS_search_terms_count: '',
+  KEYWORDS_include_adgroups_without_metrics: '',
   ADS_DEV_TOKEN: '',
   ADS_API_VERSION: '',
   ADS_INTERNAL_PROXY: '',
   CLOUD_PROJECT_ID: '',
   CLOUD_PROJECT_REGION: '',
   CUSTOMER_NAME: '',
+  LLM_Provider: '',
   LLM_Name: '',
   LLM_Uri: '',
+  LLM_API_KEY: '',
   LLM_Params_temperature: '',
   LLM_Params_topK: '',
   LLM_Params_topP: '',
+  LLM_Structured_Output: '',
+  LLM_Cache: '',
+  LLM_Record_Mode: '',
+  LLM_Replay_File: '',
+  LLM_Prices: '',
+  LLM_Repair_Max_Attempts: '',
+  LLM_Prompt_Token_Budget: '',
   LLM_Prompt_Headlines: '',
   LLM_Prompt_Headlines_Shorten: '',
   LLM_Prompt_Descriptions: '',
+  LLM_Prompt_Descriptions_Shorten: '',
   LLM_Prompt_Customizers: '',
+  LLM_Prompt_Paths: '',
+  LLM_Prompt_Paths_Shorten: '',
   LLM_Prompt_Headlines_Suffix: '',
   LLM_Prompt_Descriptions_Suffix: '',
   LLM_Prompt_Customizers_Suffix: '',
+  LLM_Prompt_Paths_Suffix: '',
+  LLM_Prompt_Language_Check: '',
+  LLM_Prompt_Judge: '',
+  LLM_Language_Check: '',
   LLM_SAFETY_HARM_CATEGORY_SEXUALLY_EXPLICIT: '',
   LLM_SAFETY_HARM_CATEGORY_HATE_SPEECH: '',
   LLM_SAFETY_HARM_CATEGORY_HARASSMENT: '',
@@ -81,8 +138,18 @@ export const SETTINGS: Settings = {
   ADSEDITOR_add_long_descriptions: '',
   ADSEDITOR_add_generic_headlines: '',
   ADSEDITOR_add_generic_descriptions: '',
+  ADSEDITOR_pinning_rules: '',
+  ADSEDITOR_exclude_flagged: '',
+  LINTER_trademarks: '',
+  DEDUPE_similarity_threshold: '',
+  GENERATION_mode: '',
+  GENERATION_candidates: '',
+  GENERATION_candidates_method: '',
+  GENERATION_judge: '',
+  GENERATION_batch_storage: '',
   ADS_CUSTOMIZER_NAME: '',
   ADS_CUSTOMIZER_use_llm: '',
+  ADS_PUBLISH_STATUS: '',
   LOGGING: '',
 };
 for (const key of Object.keys(SETTINGS)) {
@@ -103,6 +170,11 @@ export enum SafetyCategory {
 export const Config = {
   sheets: {
     Configuration: 'Configuration',
+    Overrides: 'Overrides',
+    LlmCache: 'LLM Cache',
+    Usage: 'Usage',
+    QualityReport: 'Quality report',
+    Customizers: 'Customizers',
   },
   network: {
     maxRetryCount: 100,
@@ -114,7 +186,8 @@ export const Config = {
     location: 'us-central1',
     maxRetries: 3,
     quotaLimitDelay: 30 * 1000, // 30s
-    modelName: 'gemini-pro',
+    // NOTE: structured output (responseSchema) requires gemini-1.5 models or newer
+    modelName: 'gemini-1.5-pro',
     // model default params (see https://cloud.google.com/vertex-ai/docs/generative-ai/model-reference/gemini#request_body)
     modelParams: {
       temperature: undefined, // temperature: Controls the randomness of predictions. Range: [0, 1].
@@ -129,18 +202,126 @@ export const Config = {
       HARM_CATEGORY_HARASSMENT: 'BLOCK_NONE',
       HARM_CATEGORY_DANGEROUS_CONTENT: 'BLOCK_NONE',
     },
-    // https://cloud.google.com/vertex-ai/docs/generative-ai/learn/responsible-ai#limitations
-    maxRequestLength: 8 * 1024,
+  },
+  // settings for OpenAI-compatible APIs
+  openAi: {
+    modelName: 'default',
   },
   // settings for Ads API
   adsApi: {
     api_versions: 'v16',
+    // max number of operations in one mutate request
+    mutate_batch_size: 1000,
+  },
+  // default parameters of selecting keywords in fetch_keywords
+  keywords: {
+    maxKeywords: 20,
+    metric: 'clicks',
+    // empty for all
+    matchTypes: '',
+    statuses: 'ENABLED',
+    includeAdGroupsWithoutMetrics: true,
+  },
+  // fetching landing pages for the LANDING_PAGE macro
+  landingPage: {
+    // max length of page content (title, description, headings, text)
+    maxLength: 3000,
+    // time (seconds) to cache content for (max 6 hours)
+    cacheTtl: 6 * 60 * 60,
+  },
+  // caching of model responses (see LLM_Cache setting)
+  llmCache: {
+    // time (seconds) to keep responses in CacheService (max 6 hours)
+    cacheTtl: 6 * 60 * 60,
+    // CacheService limits values to 100KB, and sheet cells to 50000 characters
+    maxCacheValueLength: 100 * 1000,
+    maxSheetValueLength: 50000,
+  },
+  // usage accounting and cost estimates
+  usage: {
+    // USD per 1M tokens (see https://cloud.google.com/vertex-ai/generative-ai/pricing),
+    // can be changed with LLM_Prices setting
+    prices: <Record<string, { input: number; output: number }>>{
+      'gemini-1.5-pro': { input: 1.25, output: 5 },
+      'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+      'gemini-1.0-pro': { input: 0.5, output: 1.5 },
+    },
+    // expected number of tokens in replies by stages (for pre-run estimates)
+    outputTokens: <Record<string, number>>{
+      headlines: 200,
+      descriptions: 200,
+      paths: 30,
+      language: 50,
+      judge: 50,
+    },
+  },
+  // settings for generation pipeline
+  generation: {
+    // default mode of processing rows with existing output (see GenerationMode)
+    mode: 'overwrite',
+    // max number of attempts to rewrite too long/short texts
+    repairMaxAttempts: 2,
+    // number of valid texts enough for an ad (generation stops on reaching)
+    headlinesCount: 15,
+    descriptionsCount: 4,
+    // min similarity (0..1) of texts to treat them as near-duplicates
+    similarityThreshold: 0.8,
+    // time (ms) a resumable run processes rows for in one execution
+    // (Apps Script limit is 6 minutes)
+    maxExecutionTime: 5 * 60 * 1000,
+    // delay (ms) before continuing a resumable run
+    continuationDelay: 60 * 1000,
+    // a global function in the client project called by continuation triggers
+    continuationHandler: 'generate_rsa_continue',
+    // number of failed executions after which a resumable run is stopped
+    maxFailures: 3,
+    // max number of tokens in prompts by stages (keywords and landing page
+    // content are cut to fit)
+    tokenBudgets: <Record<string, number>>{
+      headlines: 4000,
+      descriptions: 4000,
+      paths: 2000,
+      customizers: 2000,
+      language: 2000,
+      judge: 2000,
+    },
+    // number of candidate sets of headlines/descriptions to pool (1 - no ranking)
+    candidates: 1,
+    // candidateCount (one request) or calls (a request per set)
+    candidatesMethod: 'candidateCount',
+    // weights of scores for ranking candidates (see ranking.ts)
+    scoreWeights: {
+      coverage: 1,
+      length: 0.5,
+      uniqueness: 1,
+      lint: 1,
+      judge: 2,
+    },
+  },
+  // settings for batch generation (Vertex AI batch prediction)
+  batch: {
+    // delay (ms) between checks of a batch job's status
+    pollInterval: 5 * 60 * 1000,
+    // a global function in the client project called by polling triggers
+    pollHandler: 'generate_rsa_batch_poll',
+    // number of consecutive failed checks after which a generation is stopped
+    maxFailures: 5,
+  },
+  customizers: {
+    // name of the customizer attribute if ADS_CUSTOMIZER_NAME is empty
+    defaultName: 'CustomDKI',
+  },
+  // settings for quality report
+  quality: {
+    // number of the first (most clicked) keywords expected in headlines
+    topKeywords: 5,
   },
   ads: {
     rsa_headline_max_length: 30,
     rsa_headline_min_length: 5,
     rsa_description_max_length: 90,
     rsa_description_min_length: 10,
+    rsa_path_max_length: 15,
   },
 };
 
@@ -214,6 +395,41 @@ export function reset_configuration() {
       '',
       'Google Ads campaign id (leave blank to fetch all campaigns)',
     ],
+    [
+      SETTINGS.MAX_KEYWORDS,
+      '20',
+      'Max number of keywords per adgroup (the top ones by the metric)',
+    ],
+    [
+      SETTINGS.KEYWORDS_metric,
+      'clicks',
+      'Metric to select top keywords by: clicks, impressions, conversions, conversions_value',
+    ],
+    [
+      SETTINGS.KEYWORDS_lookback_days,
+      '',
+      'Number of days (ending yesterday) to calculate the metric for (leave blank for all time)',
+    ],
+    [
+      SETTINGS.KEYWORDS_match_types,
+      '',
+      'Keyword match types to fetch separated by commas: EXACT, PHRASE, BROAD (leave blank for all)',
+    ],
+    [
+      SETTINGS.KEYWORDS_statuses,
+      'ENABLED',
+      'Keyword statuses to fetch separated by commas: ENABLED, PAUSED',
+    ],
+    [
+      SETTINGS.KEYWORDS_search_terms_count,
+      '0',
+      'Number of top converting search terms (from search terms report) to add to keywords of each adgroup (0 - do not add)',
+    ],
+    [
+      SETTINGS.KEYWORDS_include_adgroups_without_metrics,
+      'TRUE',
+      'TRUE/FALSE - fetch keywords for adgroups without the metric (e.g. new ones) as well',
+    ],
     [SETTINGS.ADS_DEV_TOKEN, '', 'Google Ads developer token'],
     [
       SETTINGS.CLOUD_PROJECT_ID,
@@ -231,10 +447,25 @@ export function reset_configuration() {
       '',
       'The temperature is used for sampling during the response generation, which occurs when topP and topK are applied. Temperature controls the degree of randomness in token selection. Default: 0.9. See details on https://ai.google.dev/docs/concepts#model-parameters',
     ],
+    [
+      SETTINGS.LLM_Provider,
+      '', // vertex
+      "AI model provider: 'vertex' (Gemini in Vertex AI, default) or 'openai' (any OpenAI-compatible chat completions API, e.g. a self-hosted model or a local gateway, its endpoint should be specified in LLM_Uri)",
+    ],
     [
       SETTINGS.LLM_Name,
-      '', // gemini-pro
-      "AI model name to use. By default it's the latest 'gemini-pro' (publishers/google/models/gemini-pro). For full customization you can use the LLM_Uri setting with an abritrary model endpoint compatible with Vertex AI API",
+      '', // gemini-1.5-pro
+      "AI model name to use. By default it's 'gemini-1.5-pro' (publishers/google/models/gemini-1.5-pro). For full customization you can use the LLM_Uri setting with an abritrary model endpoint compatible with Vertex AI API",
+    ],
+    [
+      SETTINGS.LLM_Uri,
+      '',
+      "Model endpoint. For 'vertex' provider it overrides the default Vertex AI endpoint, for 'openai' provider it's required (e.g. https://host/v1/chat/completions)",
+    ],
+    [
+      SETTINGS.LLM_API_KEY,
+      '',
+      "API key for 'openai' provider (can also be entered via prompt from the menu to keep it secretly)",
     ],
     [
       SETTINGS.LLM_Params_topK,
@@ -246,10 +477,35 @@ export function reset_configuration() {
       '', // 0.8
       'Top-P changes how the model selects tokens for output. Specify a lower value for less random responses and a higher value for more random responses. Default: 1.0. See details on https://ai.google.dev/docs/concepts#model-parameters',
     ],
+    [
+      SETTINGS.LLM_Structured_Output,
+      'TRUE',
+      'TRUE/FALSE - ask the model to reply with JSON matching a schema (responseSchema). Use FALSE for models not supporting it',
+    ],
+    [
+      SETTINGS.LLM_Cache,
+      '',
+      'Cache model responses for identical requests: empty (no caching), "cache" (for 6 hours), "sheet" (on the hidden "LLM Cache" sheet) or both ("cache, sheet")',
+    ],
+    [
+      SETTINGS.LLM_Record_Mode,
+      '',
+      'Empty, "record" (save model requests and responses of a run to a file on Drive) or "replay" (use responses from the LLM_Replay_File file instead of calling the model)',
+    ],
+    [
+      SETTINGS.LLM_Replay_File,
+      '',
+      'Id of a Drive file with recorded model responses (for "replay" mode)',
+    ],
+    [
+      SETTINGS.LLM_Prices,
+      '',
+      'Prices of models (USD per 1M input/output tokens) for estimating cost on the Usage sheet, one per line as "model: input/output", e.g. "gemini-1.5-pro: 1.25/5"',
+    ],
     [
       SETTINGS.LLM_Prompt_Headlines,
       '',
-      'Prompt for generating headlines. Leave blank for using the default. Support macros: CUSTOMER_NAME, KEYWORDS, SUFFIX',
+      'Prompt for generating headlines. Leave blank for using the default. Support macros: CUSTOMER_NAME, KEYWORDS, MIN, MAX, EXISTING_HEADLINES, EXISTING_DESCRIPTIONS, LANDING_PAGE, LANGUAGE, SUFFIX',
     ],
     [
       SETTINGS.LLM_Prompt_Headlines_Shorten,
@@ -259,12 +515,37 @@ export function reset_configuration() {
     [
       SETTINGS.LLM_Prompt_Descriptions,
       '',
-      'Prompt for generating descriptions. Leave blank for using the default. Support macros: CUSTOMER_NAME, KEYWORDS, HEADLINES, SUFFIX',
+      'Prompt for generating descriptions. Leave blank for using the default. Support macros: CUSTOMER_NAME, KEYWORDS, HEADLINES, MIN, MAX, EXISTING_HEADLINES, EXISTING_DESCRIPTIONS, LANDING_PAGE, LANGUAGE, SUFFIX',
+    ],
+    [
+      SETTINGS.LLM_Prompt_Descriptions_Shorten,
+      '',
+      'Prompt for shortening descriptions. Leave blank for using the default. Support macros: MIN, MAX, DESCRIPTIONS',
+    ],
+    [
+      SETTINGS.LLM_Repair_Max_Attempts,
+      '',
+      'Max number of attempts to rewrite too long/short headlines, descriptions and paths (2 by default)',
+    ],
+    [
+      SETTINGS.LLM_Prompt_Token_Budget,
+      '',
+      'Max number of tokens in prompts: a number or stage:number pairs for headlines, descriptions, paths, customizers, language, judge (e.g. "headlines: 3000, paths: 1000"). Keywords with less clicks are dropped to fit',
     ],
     [
       SETTINGS.LLM_Prompt_Customizers,
       '',
-      'Prompt for generating customizer feed values for keywords. Supported macros: CUSTOMER_NAME, KEYWORDS, SUFFIX',
+      'Prompt for generating customizer feed values for keywords, the model should reply with a JSON array of objects with "keyword" and "value" fields. Supported macros: CUSTOMER_NAME, KEYWORDS, MIN, MAX, LANGUAGE, SUFFIX, ATTRIBUTE, TYPE',
+    ],
+    [
+      SETTINGS.LLM_Prompt_Paths,
+      '',
+      'Prompt for generating display paths (Path 1/Path 2). Leave blank for using the default. Supported macros: CUSTOMER_NAME, KEYWORDS, URL, MAX, LANGUAGE, SUFFIX',
+    ],
+    [
+      SETTINGS.LLM_Prompt_Paths_Shorten,
+      '',
+      'Prompt for shortening display paths. Leave blank for using the default. Support macros: MAX, PATHS',
     ],
     [
       SETTINGS.LLM_Prompt_Headlines_Suffix,
@@ -281,6 +562,26 @@ export function reset_configuration() {
       '',
       'Additional text to add to the prompt for customer feed values (as {SUFFIX} macro)',
     ],
+    [
+      SETTINGS.LLM_Prompt_Paths_Suffix,
+      '',
+      'Additional text to add to the prompt for display paths (as {SUFFIX} macro)',
+    ],
+    [
+      SETTINGS.LLM_Language_Check,
+      'TRUE',
+      'TRUE/FALSE - check that generated headlines/descriptions are in the target language (from "language" or "language_override" columns) and flag others in "issues" column',
+    ],
+    [
+      SETTINGS.LLM_Prompt_Language_Check,
+      '',
+      'Prompt for checking language of generated texts. Leave blank for using the default. Support macros: LANGUAGE, TEXTS',
+    ],
+    [
+      SETTINGS.LLM_Prompt_Judge,
+      '',
+      'Prompt for scoring generated texts by the model (see GENERATION_judge). Leave blank for using the default. Support macros: CUSTOMER_NAME, KEYWORDS, LANGUAGE, STAGE, TEXTS',
+    ],
     [
       SETTINGS.ADSEDITOR_add_long_headlines,
       'FALSE',
@@ -301,17 +602,106 @@ export function reset_configuration() {
       '',
       'A range to take generic descriptions from, e.g. Data!C1:C20 ("Date" is the name of sheet)',
     ],
-    [SETTINGS.ADS_CUSTOMIZER_NAME, '', 'Customizer attribute name'],
+    [
+      SETTINGS.ADSEDITOR_pinning_rules,
+      '',
+      'Rules for pinning headlines/descriptions to positions, one per line as "[first] <matcher> => <positions>". Matcher: CUSTOMER_NAME, GENERIC, /regexp/ or a text to search. Positions: H1-H3 or D1-D2 separated by "|" (used in turn). E.g. "CUSTOMER_NAME => H1", "first GENERIC => H2", "/buy|shop/i => H2|H3"',
+    ],
+    [
+      SETTINGS.ADSEDITOR_exclude_flagged,
+      'FALSE',
+      'Use TRUE to exclude headlines/descriptions with editorial issues (see "issues" column) from generated sheet for Google Ads',
+    ],
+    [
+      SETTINGS.LINTER_trademarks,
+      '',
+      'Trademarked terms (separated by commas or new lines) to flag in generated headlines/descriptions',
+    ],
+    [
+      SETTINGS.DEDUPE_similarity_threshold,
+      '0.8',
+      'Min similarity (from 0 to 1) of headlines/descriptions (ignoring case, punctuation and stopwords) to treat them as near-duplicates and drop (1 - drop only identical ones)',
+    ],
+    [
+      SETTINGS.GENERATION_mode,
+      'overwrite',
+      'How to process rows with already generated headlines/descriptions: fill-empty (only rows with empty output), overwrite, append (add new ones to existing), changed-keywords (only rows whose keywords changed since the last generation)',
+    ],
+    [
+      SETTINGS.GENERATION_candidates,
+      '1',
+      'Number of candidate sets of headlines/descriptions to generate and pool, the best ones are selected by scores (written to "scores" column). 1 - no ranking',
+    ],
+    [
+      SETTINGS.GENERATION_candidates_method,
+      'candidateCount',
+      'How to generate candidate sets: candidateCount (in one request, if the model supports it) or calls (a request per set)',
+    ],
+    [
+      SETTINGS.GENERATION_judge,
+      'FALSE',
+      'TRUE/FALSE - ask the model to score candidates (LLM as a judge) in addition to rule-based scores',
+    ],
+    [
+      SETTINGS.GENERATION_batch_storage,
+      '',
+      'Cloud Storage folder (e.g. gs://bucket/rsa-batch) for request and result files of batch generation via Vertex AI batch prediction',
+    ],
+    [
+      SETTINGS.ADS_CUSTOMIZER_NAME,
+      '',
+      'Customizer attribute name (if attributes are not defined on the "Customizers" sheet)',
+    ],
     [
       SETTINGS.ADS_CUSTOMIZER_use_llm,
       'TRUE',
       'TRUE/FALSE - use LLM for generating customizer feed',
     ],
+    [
+      SETTINGS.ADS_PUBLISH_STATUS,
+      'PAUSED',
+      'PAUSED/ENABLED - status of ads created in Google Ads on publishing',
+    ],
     [SETTINGS.LOGGING, 'TRUE', ''],
   ];
   sheet?.getRange(1, 1, values.length, values[0].length).setValues(values);
 }
 
+/**
+ * Create a sheet for overriding settings for customers, campaigns and ad groups.
+ */
+export function create_overrides_sheet() {
+  const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+  let sheet = spreadsheet.getSheetByName(Config.sheets.Overrides);
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(Config.sheets.Overrides);
+  }
+  sheet
+    .getRange(1, 1, 1, OVERRIDES_COLUMNS.length)
+    .setValues([OVERRIDES_COLUMNS]);
+  sheet.setFrozenRows(1);
+  sheet.activate();
+  SpreadsheetApp.getUi().alert(
+    'Put one override per row: level (customer, campaign or adgroup), id, setting name (as on the Configuration sheet) and value. Ad group values override campaign ones, campaign values override customer ones.'
+  );
+}
+
+export function create_customizers_sheet() {
+  const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+  let sheet = spreadsheet.getSheetByName(Config.sheets.Customizers);
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(Config.sheets.Customizers);
+  }
+  sheet
+    .getRange(1, 1, 1, CUSTOMIZERS_COLUMNS.length)
+    .setValues([CUSTOMIZERS_COLUMNS]);
+  sheet.setFrozenRows(1);
+  sheet.activate();
+  SpreadsheetApp.getUi().alert(
+    'Put one customizer attribute per row: name, type (Text, Number, Price or Percent), prompt for generating values (optional for Text, the model should reply with a JSON array of objects with "keyword" and "value" fields, supported macros: CUSTOMER_NAME, KEYWORDS, MIN, MAX, LANGUAGE, SUFFIX, ATTRIBUTE, TYPE) and max length of values (optional).'
+  );
+}
+
 export function reveal_prompts() {
   ConfigReader.setValue(
     SETTINGS.LLM_Prompt_Headlines,
@@ -325,10 +715,98 @@ export function reveal_prompts() {
     SETTINGS.LLM_Prompt_Descriptions,
     Predictor.DEFAULT_PROMPT_DESCRIPTIONS
   );
+  ConfigReader.setValue(
+    SETTINGS.LLM_Prompt_Descriptions_Shorten,
+    Predictor.DEFAULT_PROMPT_DESCRIPTIONS_SHORTEN
+  );
   ConfigReader.setValue(
     SETTINGS.LLM_Prompt_Customizers,
     Predictor.DEFAULT_PROMPT_CUSTOMIZERS
   );
+  ConfigReader.setValue(
+    SETTINGS.LLM_Prompt_Paths,
+    Predictor.DEFAULT_PROMPT_PATHS
+  );
+  ConfigReader.setValue(
+    SETTINGS.LLM_Prompt_Paths_Shorten,
+    Predictor.DEFAULT_PROMPT_PATHS_SHORTEN
+  );
+  ConfigReader.setValue(
+    SETTINGS.LLM_Prompt_Language_Check,
+    Predictor.DEFAULT_PROMPT_LANGUAGE_CHECK
+  );
+  ConfigReader.setValue(
+    SETTINGS.LLM_Prompt_Judge,
+    Predictor.DEFAULT_PROMPT_JUDGE
+  );
+}
+
+/**
+ * Macros supported in prompts (by settings names).
+ */
+const PROMPT_MACROS: Record<string, string[]> = {
+  [SETTINGS.LLM_Prompt_Headlines]: [
+    'CUSTOMER_NAME',
+    'KEYWORDS',
+    'MIN',
+    'MAX',
+    'EXISTING_HEADLINES',
+    'EXISTING_DESCRIPTIONS',
+    'LANDING_PAGE',
+    'LANGUAGE',
+    'SUFFIX',
+  ],
+  [SETTINGS.LLM_Prompt_Headlines_Shorten]: ['MIN', 'MAX', 'HEADLINES'],
+  [SETTINGS.LLM_Prompt_Descriptions]: [
+    'CUSTOMER_NAME',
+    'KEYWORDS',
+    'HEADLINES',
+    'MIN',
+    'MAX',
+    'EXISTING_HEADLINES',
+    'EXISTING_DESCRIPTIONS',
+    'LANDING_PAGE',
+    'LANGUAGE',
+    'SUFFIX',
+  ],
+  [SETTINGS.LLM_Prompt_Descriptions_Shorten]: ['MIN', 'MAX', 'DESCRIPTIONS'],
+  [SETTINGS.LLM_Prompt_Customizers]: CUSTOMIZER_PROMPT_MACROS,
+  [SETTINGS.LLM_Prompt_Paths]: [
+    'CUSTOMER_NAME',
+    'KEYWORDS',
+    'URL',
+    'MAX',
+    'LANGUAGE',
+    'SUFFIX',
+  ],
+  [SETTINGS.LLM_Prompt_Paths_Shorten]: ['MAX', 'PATHS'],
+  [SETTINGS.LLM_Prompt_Language_Check]: ['LANGUAGE', 'TEXTS'],
+  [SETTINGS.LLM_Prompt_Judge]: [
+    'CUSTOMER_NAME',
+    'KEYWORDS',
+    'LANGUAGE',
+    'STAGE',
+    'TEXTS',
+  ],
+};
+
+/**
+ * Check custom prompts for syntax errors and unsupported macros.
+ */
+export function validate_prompts() {
+  const errors: string[] = [];
+  for (const [setting, macros] of Object.entries(PROMPT_MACROS)) {
+    const template = ConfigReader.getValue(setting);
+    if (!template) continue;
+    for (const error of validateTemplate(template, macros)) {
+      errors.push(`${setting}: ${error}`);
+    }
+  }
+  SpreadsheetApp.getUi().alert(
+    errors.length
+      ? `Prompts have errors:\n${errors.join('\n')}`
+      : 'All prompts are valid'
+  );
 }
 
 export function reveal_safetySettings() {
@@ -0,0 +1,222 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Config, IConfigReader, SETTINGS } from './config';
+import { getAdsTextLength } from './ads-length';
+import { validateTemplate } from './template';
+
+/**
+ * Customizer attributes for customizer feeds (see generate_customizer_feed).
+ * They are defined on a separate sheet with one attribute per row:
+ *  name | type (Text, Number, Price, Percent) | prompt | max length
+ * If the sheet doesn't exist, a single Text attribute (ADS_CUSTOMIZER_NAME)
+ * with the LLM_Prompt_Customizers prompt is used.
+ */
+
+export enum CustomizerType {
+  Text = 'Text',
+  Number = 'Number',
+  Price = 'Price',
+  Percent = 'Percent',
+}
+
+export interface CustomizerAttribute {
+  name: string;
+  type: CustomizerType;
+  /** prompt for generating values (empty for the default one) */
+  prompt: string;
+  /** max length of values (in Google Ads units) */
+  maxLength: number;
+}
+
+/**
+ * How a customizer value was produced.
+ */
+export enum CustomizerValueMethod {
+  /** generated by the model in the first request */
+  Llm = 'llm',
+  /** generated by the model in a repeated request (for missing/invalid ones) */
+  LlmRetry = 'llm-retry',
+  /** a normalized keyword (fallback) */
+  Keyword = 'keyword',
+  /** no valid value */
+  None = 'none',
+}
+
+export interface CustomizerValue {
+  value: string;
+  method: CustomizerValueMethod;
+}
+
+export const CUSTOMIZERS_COLUMNS = ['name', 'type', 'prompt', 'max_length'];
+
+/**
+ * Macros supported in customizer prompts.
+ */
+export const CUSTOMIZER_PROMPT_MACROS = [
+  'CUSTOMER_NAME',
+  'KEYWORDS',
+  'MIN',
+  'MAX',
+  'LANGUAGE',
+  'SUFFIX',
+  'ATTRIBUTE',
+  'TYPE',
+];
+
+// formats of values by types (see https://support.google.com/google-ads/answer/10995875)
+const NUMBER = '\\d+(?:[.,]\\d+)*';
+const VALUE_FORMATS: Record<CustomizerType, RegExp | undefined> = {
+  [CustomizerType.Text]: undefined,
+  [CustomizerType.Number]: new RegExp(`^-?${NUMBER}$`),
+  // a number with a currency symbol or code, e.g. $19.99, 19.99 USD, EUR 5
+  [CustomizerType.Price]: new RegExp(
+    `^(?:[A-Z]{3} ?${NUMBER}|${NUMBER} ?[A-Z]{3}|\\p{Sc} ?${NUMBER}|${NUMBER} ?\\p{Sc})$`,
+    'u'
+  ),
+  [CustomizerType.Percent]: new RegExp(`^-?${NUMBER} ?%$`),
+};
+
+/**
+ * Parse customizer attributes from values of the Customizers sheet
+ * (without the header).
+ * @param {Array} values - rows of name, type, prompt and max length
+ * @returns {CustomizerAttribute[]}
+ * @throws {Error} on invalid attributes
+ */
+export function parseCustomizerAttributes(
+  values: any[][]
+): CustomizerAttribute[] {
+  const types = Object.values(CustomizerType) as string[];
+  const attributes: CustomizerAttribute[] = [];
+  values.forEach((row, i) => {
+    const name = (row[0] || '').toString().trim();
+    const typeText = (row[1] || '').toString().trim();
+    const prompt = (row[2] || '').toString();
+    if (!name && !typeText && !prompt) return;
+    // data rows start with #2 in the sheet
+    const where = `in row ${i + 2} of ${Config.sheets.Customizers} sheet`;
+    if (!name) {
+      throw new Error(`Missing attribute name ${where}`);
+    }
+    if (attributes.some(attr => attr.name === name)) {
+      throw new Error(`Duplicate attribute "${name}" ${where}`);
+    }
+    const type = types.find(
+      t => t.toLowerCase() === (typeText || CustomizerType.Text).toLowerCase()
+    );
+    if (!type) {
+      throw new Error(
+        `Unknown customizer type "${typeText}" ${where}, supported types: ${types.join(
+          ', '
+        )}`
+      );
+    }
+    if (!prompt && type !== CustomizerType.Text) {
+      throw new Error(
+        `Missing prompt for ${type} attribute "${name}" ${where} (the default prompt generates only texts)`
+      );
+    }
+    const errors = prompt
+      ? validateTemplate(prompt, CUSTOMIZER_PROMPT_MACROS)
+      : [];
+    if (errors.length) {
+      throw new Error(
+        `Invalid prompt of attribute "${name}" ${where}: ${errors.join('; ')}`
+      );
+    }
+    const maxLength = row[3]
+      ? parseInt(row[3])
+      : Config.ads.rsa_headline_max_length;
+    if (!(maxLength > 0)) {
+      throw new Error(`Invalid max length "${row[3]}" ${where}`);
+    }
+    attributes.push({
+      name,
+      type: type as CustomizerType,
+      prompt,
+      maxLength,
+    });
+  });
+  return attributes;
+}
+
+/**
+ * Load customizer attributes from the Customizers sheet, or create
+ * the default one (a Text attribute named by ADS_CUSTOMIZER_NAME).
+ * @param {IConfigReader} configReader
+ * @returns {CustomizerAttribute[]}
+ */
+export function loadCustomizerAttributes(
+  configReader: IConfigReader
+): CustomizerAttribute[] {
+  const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(
+    Config.sheets.Customizers
+  );
+  if (sheet && sheet.getLastRow() > 1) {
+    const attributes = parseCustomizerAttributes(
+      sheet
+        .getRange(2, 1, sheet.getLastRow() - 1, CUSTOMIZERS_COLUMNS.length)
+        .getValues()
+    );
+    if (attributes.length) return attributes;
+  }
+  return [
+    {
+      name:
+        configReader.getValue(SETTINGS.ADS_CUSTOMIZER_NAME) ||
+        Config.customizers.defaultName,
+      type: CustomizerType.Text,
+      prompt: '',
+      maxLength: Config.ads.rsa_headline_max_length,
+    },
+  ];
+}
+
+/**
+ * Check a value against its attribute's type format and length limit.
+ * @param {String} value
+ * @param {CustomizerAttribute} attribute
+ * @returns {String|undefined} an error message if the value is invalid
+ */
+export function validateCustomizerValue(
+  value: string,
+  attribute: CustomizerAttribute
+): string | undefined {
+  if (!value) return 'empty value';
+  const length = getAdsTextLength(value);
+  if (length > attribute.maxLength) {
+    return `longer than ${attribute.maxLength} (${length})`;
+  }
+  const format = VALUE_FORMATS[attribute.type];
+  if (format && !format.test(value)) {
+    return `not a valid ${attribute.type.toLowerCase()}`;
+  }
+  return undefined;
+}
+
+/**
+ * Create a customizer value for Google Ads API.
+ * @param {String} value
+ * @param {CustomizerType} type
+ * @returns CustomizerValue object
+ */
+export function createCustomizerApiValue(value: string, type: CustomizerType) {
+  return {
+    type: type.toUpperCase(),
+    stringValue: value,
+  };
+}
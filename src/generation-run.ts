@@ -0,0 +1,164 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Config } from './config';
+
+/**
+ * Persistent state of a long-running (resumable) generation that is
+ * continued by time-based triggers when an execution hits the time limit.
+ */
+
+export type GenerationRunStatus =
+  | 'running'
+  | 'paused'
+  | 'failed'
+  // all rows were processed but some of them failed (the run is kept
+  // for users to see it, a new run replaces it)
+  | 'completed';
+
+export interface GenerationRun {
+  runId: string;
+  /** name of a sheet with keywords */
+  sheetName: string;
+  /** last processed row (sheet row number) */
+  lastRow: number;
+  /** last row to process */
+  endRow: number;
+  /** generation mode (see GenerationMode) */
+  mode?: string;
+  status: GenerationRunStatus;
+  /** number of processed rows */
+  processed: number;
+  /** number of rows that failed with an error (not counted as processed) */
+  failedRows?: number;
+  /** number of executions (the initial one and continuations) */
+  executions: number;
+  /** number of executions that failed with an error */
+  failures?: number;
+  /** the last execution's error */
+  error?: string;
+  startedAt: string;
+  updatedAt: string;
+}
+
+const RUN_PROPERTY = 'GENERATION_RUN';
+
+/**
+ * Load a current run (if any) from document properties.
+ * @returns {GenerationRun|undefined}
+ */
+export function loadGenerationRun(): GenerationRun | undefined {
+  const value =
+    PropertiesService.getDocumentProperties().getProperty(RUN_PROPERTY);
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    Logger.log(`WARNING: failed to parse generation run state: ${e}`);
+    return undefined;
+  }
+}
+
+/**
+ * Save a run's state to document properties.
+ * @param {GenerationRun} run
+ */
+export function saveGenerationRun(run: GenerationRun) {
+  run.updatedAt = new Date().toISOString();
+  PropertiesService.getDocumentProperties().setProperty(
+    RUN_PROPERTY,
+    JSON.stringify(run)
+  );
+}
+
+export function clearGenerationRun() {
+  PropertiesService.getDocumentProperties().deleteProperty(RUN_PROPERTY);
+}
+
+/**
+ * Create a new run for rows of a sheet.
+ * @param {String} sheetName
+ * @param {Number} startRow - first row to process
+ * @param {Number} endRow - last row to process
+ * @param [String] mode - generation mode
+ * @returns {GenerationRun}
+ */
+export function createGenerationRun(
+  sheetName: string,
+  startRow: number,
+  endRow: number,
+  mode?: string
+): GenerationRun {
+  const now = new Date().toISOString();
+  return {
+    runId: Utilities.getUuid(),
+    sheetName,
+    lastRow: startRow - 1,
+    endRow,
+    mode,
+    status: 'running',
+    processed: 0,
+    executions: 0,
+    startedAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Describe a run's state for users.
+ * @param {GenerationRun} run
+ * @returns {String}
+ */
+export function formatGenerationRun(run: GenerationRun): string {
+  return [
+    `Run: ${run.runId} (${run.status})`,
+    `Sheet: ${run.sheetName}`,
+    `Mode: ${run.mode || ''}`,
+    `Processed rows: ${run.processed} (last row ${run.lastRow} of ${run.endRow})`,
+    ...(run.failedRows
+      ? [`Failed rows: ${run.failedRows} (see the status column)`]
+      : []),
+    `Executions: ${run.executions}`,
+    ...(run.error ? [`Last error: ${run.error}`] : []),
+    `Started: ${run.startedAt}`,
+    `Updated: ${run.updatedAt}`,
+  ].join('\n');
+}
+
+/**
+ * Schedule a one-off trigger to continue a run.
+ * @param {String} handler - a global function's name in the client project
+ * @param [Number] delay - delay (ms) before the trigger fires
+ */
+export function scheduleContinuation(
+  handler: string,
+  delay = Config.generation.continuationDelay
+) {
+  deleteContinuations(handler);
+  ScriptApp.newTrigger(handler).timeBased().after(delay).create();
+}
+
+/**
+ * Delete all triggers for continuing runs.
+ * @param {String} handler
+ */
+export function deleteContinuations(handler: string) {
+  for (const trigger of ScriptApp.getProjectTriggers()) {
+    if (trigger.getHandlerFunction() === handler) {
+      ScriptApp.deleteTrigger(trigger);
+    }
+  }
+}
@@ -24,6 +24,20 @@ export interface GoogleAdsClientOptions {
   apiVersion?: string;
 }
 
+export interface MutateOptions {
+  validateOnly?: boolean;
+  partialFailure?: boolean;
+}
+
+export interface MutateResult {
+  /** resource names of mutated entities by operation index (empty on failures and for validateOnly requests) */
+  results: string[];
+  /** error messages by operation index */
+  errors: Record<number, string[]>;
+  /** error messages without an operation (they apply to all operations) */
+  batchErrors: string[];
+}
+
 type InternalAdsAppType = {
   search: (request: string, opts: any) => any;
 };
@@ -64,6 +78,11 @@ export class GoogleAdsClient {
     if (configReader.getValue(SETTINGS.ADS_INTERNAL_PROXY)) {
       Logger.log('WARN: Using internal Google Ads client (InternalAdsApp)');
       GoogleAdsClient.execHook = (url, request, customerId, apiVersion) => {
+        if (url.endsWith(':mutate')) {
+          throw new Error(
+            'Mutate requests are not supported by internal Google Ads client'
+          );
+        }
         request.payload.customer_id = (customerId || this.mccId).toString();
         Logger.log(
           `Sending GoogleAds request: ${JSON.stringify(request.payload)}`
@@ -107,10 +126,8 @@ export class GoogleAdsClient {
     return cids;
   }
 
-  execQuery(query: string, customerId: string): any[] {
-    Logger.log(`Executing GAQL query: ${query}`);
+  _createRequest(payload: any): any {
     const OAUTH_TOKEN = ScriptApp.getOAuthToken();
-    const url = `${this.endpoint}customers/${customerId}/googleAds:search`;
     const request: any = {
       method: 'POST',
       headers: {
@@ -119,15 +136,22 @@ export class GoogleAdsClient {
         'Content-Type': 'application/json',
       },
       contentType: 'application/json',
-      payload: {
-        //NOTE: by default pageSize=10000, might be configurable in the future
-        query: query,
-      },
+      payload: payload,
       muteHttpExceptions: true, // Set to true for full exceptions in logs
     };
     if (this.mccId) {
       request.headers['login-customer-id'] = this.mccId;
     }
+    return request;
+  }
+
+  execQuery(query: string, customerId: string): any[] {
+    Logger.log(`Executing GAQL query: ${query}`);
+    const url = `${this.endpoint}customers/${customerId}/googleAds:search`;
+    const request = this._createRequest({
+      //NOTE: by default pageSize=10000, might be configurable in the future
+      query: query,
+    });
     let results;
     do {
       const resJson = this.sendApiRequest(url, request, customerId);
@@ -155,4 +179,59 @@ export class GoogleAdsClient {
 
     return results || [];
   }
+
+  /**
+   * Execute a mutate request of a service (e.g. AdGroupAdService).
+   * Errors of individual operations (with partialFailure) are returned
+   * by operations indexes (or as batch errors if they have no operation),
+   * while failures of a whole request are thrown.
+   * @param {String} service - service resource name, e.g. 'adGroupAds'
+   * @param {Array} operations - operations to send
+   * @param {String} customerId
+   * @param options
+   */
+  mutate(
+    service: string,
+    operations: any[],
+    customerId: string,
+    options?: MutateOptions
+  ): MutateResult {
+    options = options || {};
+    Logger.log(
+      `Executing ${service} mutate with ${operations.length} operations for CID=${customerId}` +
+        (options.validateOnly ? ' (validate only)' : '')
+    );
+    const url = `${this.endpoint}customers/${customerId}/${service}:mutate`;
+    const request = this._createRequest({
+      operations: operations,
+      partialFailure: options.partialFailure ?? true,
+      validateOnly: !!options.validateOnly,
+    });
+    const resJson = this.sendApiRequest(url, request, customerId);
+    const data = resJson && resJson.length ? resJson[0] : resJson;
+    if (data?.error) {
+      throw new Error(data.error.message);
+    }
+    const result: MutateResult = {
+      results: (data?.results || []).map((res: any) => res.resourceName || ''),
+      errors: {},
+      batchErrors: [],
+    };
+    for (const details of data?.partialFailureError?.details || []) {
+      for (const error of details.errors || []) {
+        // the first path element points to the failed operation:
+        // {"fieldName": "operations", "index": 0}
+        const index = error.location?.fieldPathElements?.[0]?.index;
+        if (index === undefined) {
+          result.batchErrors.push(error.message);
+          continue;
+        }
+        if (!result.errors[index]) {
+          result.errors[index] = [];
+        }
+        result.errors[index].push(error.message);
+      }
+    }
+    return result;
+  }
 }
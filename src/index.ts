@@ -35,6 +35,14 @@ function onOpen(var_name: string) {
       name: ' - Generate headlines/descriptions via AI (option 1)',
       functionName: var_name + '.generate_rsa',
     },
+    {
+      name: ' - Generate headlines/descriptions in background (resumable)',
+      functionName: var_name + '.generate_rsa_resumable',
+    },
+    {
+      name: ' - Generate headlines/descriptions in batch (Vertex AI, large accounts)',
+      functionName: var_name + '.generate_rsa_batch',
+    },
     {
       name: ' - Open sidebar with generation interface (option 2)',
       functionName: var_name + '.open_sidebar',
@@ -43,15 +51,56 @@ function onOpen(var_name: string) {
       name: ' - - Generate data for Google Ads Editor',
       functionName: var_name + '.generate_ads_editor',
     },
+    {
+      name: ' - - - Validate generated ads in Google Ads (dry run)',
+      functionName: var_name + '.publish_ads_validate',
+    },
+    {
+      name: ' - - - Publish generated ads to Google Ads',
+      functionName: var_name + '.publish_ads',
+    },
+    {
+      name: ' - - Quality report of generated ads',
+      functionName: var_name + '.quality_report',
+    },
     {
       name: ' - Generate customizer feed for Google Ads',
       functionName: var_name + '.generate_customizer_feed',
     },
+    {
+      name: ' - - Upload customizer feed to Google Ads',
+      functionName: var_name + '.upload_customizer_feed',
+    },
+    null,
+    {
+      name: 'View background generation',
+      functionName: var_name + '.view_generation_run',
+    },
+    {
+      name: 'Pause background generation',
+      functionName: var_name + '.pause_generation_run',
+    },
+    {
+      name: 'Cancel background generation',
+      functionName: var_name + '.cancel_generation_run',
+    },
+    {
+      name: 'Check batch generation',
+      functionName: var_name + '.check_batch_generation',
+    },
+    {
+      name: 'Cancel batch generation',
+      functionName: var_name + '.cancel_batch_generation',
+    },
     null,
     {
       name: 'Enter Ads developer token',
       functionName: var_name + '.enter_dev_token',
     },
+    {
+      name: 'Enter LLM API key',
+      functionName: var_name + '.enter_llm_api_key',
+    },
     {
       name: 'DEBUG: Generate headlines/descriptions for the selected row',
       functionName: var_name + '.generate_rsa_current_row',
@@ -60,10 +109,22 @@ function onOpen(var_name: string) {
       name: 'Reset configuration',
       functionName: var_name + '.reset_configuration',
     },
+    {
+      name: 'Create configuration overrides sheet',
+      functionName: var_name + '.create_overrides_sheet',
+    },
+    {
+      name: 'Create customizer attributes sheet',
+      functionName: var_name + '.create_customizers_sheet',
+    },
     {
       name: 'Reveal prompts',
       functionName: var_name + '.reveal_prompts',
     },
+    {
+      name: 'Validate prompts',
+      functionName: var_name + '.validate_prompts',
+    },
     {
       name: 'Reveal safety settings',
       functionName: var_name + '.reveal_safetySettings',
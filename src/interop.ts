@@ -62,6 +62,22 @@ export function getErrorFromResponse(responseText: string) {
   return errorMsg;
 }
 
+/**
+ * Calculate MD5 hash of a text.
+ * @param {String} text
+ * @returns {String} hex string
+ */
+export function getHash(text: string) {
+  const digest = Utilities.computeDigest(
+    Utilities.DigestAlgorithm.MD5,
+    text,
+    Utilities.Charset.UTF_8
+  );
+  return digest
+    .map(b => ((b + 256) % 256).toString(16).padStart(2, '0'))
+    .join('');
+}
+
 export function fetchJson(url: string, params: any, retryNum?: number): any {
   if (!retryNum) retryNum = 0;
   if (!params.contentType) {
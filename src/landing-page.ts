@@ -0,0 +1,195 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Config } from './config';
+import { getHash } from './interop';
+
+/**
+ * Fetching landing pages and extracting their content for grounding prompts.
+ */
+
+export interface LandingPage {
+  title: string;
+  description: string;
+  headings: string[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string) {
+  return text.replaceAll(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (match: string, entity: string) => {
+      if (entity[0] === '#') {
+        const code =
+          entity[1].toLowerCase() === 'x'
+            ? parseInt(entity.substring(2), 16)
+            : parseInt(entity.substring(1));
+        return isNaN(code) ? match : String.fromCodePoint(code);
+      }
+      return ENTITIES[entity.toLowerCase()] ?? match;
+    }
+  );
+}
+
+/**
+ * Convert an HTML fragment into plain text.
+ * @param {String} html
+ * @returns {String}
+ */
+function htmlToText(html: string) {
+  return decodeEntities(
+    html.replaceAll(/<[^>]*>/g, ' ').replaceAll(/\s+/g, ' ')
+  ).trim();
+}
+
+function getAttribute(tag: string, name: string) {
+  const match = tag.match(
+    new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i')
+  );
+  return match ? match[2] ?? match[3] ?? match[4] ?? '' : '';
+}
+
+/**
+ * Extract title, meta description, headings and main text from a page.
+ * @param {String} html
+ * @returns {LandingPage}
+ */
+export function extractLandingPage(html: string): LandingPage {
+  html = (html || '')
+    .replaceAll(/<!--[\s\S]*?-->/g, ' ')
+    .replaceAll(
+      /<(script|style|noscript|svg|template|iframe)\b[\s\S]*?<\/\1\s*>/gi,
+      ' '
+    );
+  const title = htmlToText(
+    html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] || ''
+  );
+
+  let description = '';
+  for (const tag of html.match(/<meta\b[^>]*>/gi) || []) {
+    const name = (
+      getAttribute(tag, 'name') || getAttribute(tag, 'property')
+    ).toLowerCase();
+    if (name === 'description' || (name === 'og:description' && !description)) {
+      description = htmlToText(getAttribute(tag, 'content'));
+    }
+  }
+
+  const headings: string[] = [];
+  for (const match of html.matchAll(
+    /<h[1-3]\b[^>]*>([\s\S]*?)<\/h[1-3]\s*>/gi
+  )) {
+    const heading = htmlToText(match[1]);
+    if (heading && !headings.includes(heading)) {
+      headings.push(heading);
+    }
+  }
+
+  // the main content if it's marked, otherwise the body without navigation
+  let content =
+    html.match(/<main\b[^>]*>([\s\S]*?)<\/main\s*>/i)?.[1] ||
+    html.match(/<article\b[^>]*>([\s\S]*?)<\/article\s*>/i)?.[1] ||
+    html.match(/<body\b[^>]*>([\s\S]*?)<\/body\s*>/i)?.[1] ||
+    html;
+  content = content.replaceAll(
+    /<(nav|header|footer|aside|form)\b[\s\S]*?<\/\1\s*>/gi,
+    ' '
+  );
+  return { title, description, headings, text: htmlToText(content) };
+}
+
+/**
+ * Format landing page content for a prompt.
+ * @param {LandingPage} page
+ * @param {Number} maxLength - max length of the result (the main text is truncated first)
+ * @returns {String}
+ */
+export function formatLandingPage(page: LandingPage, maxLength: number) {
+  const lines = [];
+  if (page.title) lines.push(`Title: ${page.title}`);
+  if (page.description) lines.push(`Description: ${page.description}`);
+  if (page.headings.length) {
+    lines.push('Headings:', ...page.headings.map(heading => `- ${heading}`));
+  }
+  let result = lines.join('\n');
+  if (page.text) {
+    const prefix = (result ? result + '\n' : '') + 'Text: ';
+    const available = maxLength - prefix.length;
+    if (available > 0) {
+      result = prefix + page.text.substring(0, available);
+    }
+  }
+  return result.substring(0, maxLength);
+}
+
+const pagesCache: Record<string, string> = {};
+
+function getCacheKey(url: string) {
+  return 'landing_page_' + getHash(url);
+}
+
+/**
+ * Fetch a landing page and get its formatted content. Results are cached
+ * per URL (in memory and in the document cache).
+ * @param {String} url
+ * @returns {String} formatted content or empty string if the page couldn't be fetched
+ */
+export function getLandingPageContent(url: string): string {
+  url = (url || '').toString().trim();
+  if (!url) return '';
+  if (pagesCache[url] !== undefined) return pagesCache[url];
+
+  const cache = CacheService.getDocumentCache();
+  const cacheKey = getCacheKey(url);
+  const cached = cache?.get(cacheKey);
+  if (cached !== null && cached !== undefined) {
+    pagesCache[url] = cached;
+    return cached;
+  }
+
+  let content = '';
+  try {
+    const response = UrlFetchApp.fetch(url, {
+      muteHttpExceptions: true,
+      followRedirects: true,
+    });
+    const code = response.getResponseCode();
+    if (code === 200) {
+      content = formatLandingPage(
+        extractLandingPage(response.getContentText()),
+        Config.landingPage.maxLength
+      );
+    } else {
+      Logger.log(`WARNING: failed to fetch landing page ${url}: code ${code}`);
+    }
+  } catch (e) {
+    Logger.log(`WARNING: failed to fetch landing page ${url}: ${e}`);
+  }
+  pagesCache[url] = content;
+  if (content) {
+    cache?.put(cacheKey, content, Config.landingPage.cacheTtl);
+  }
+  return content;
+}
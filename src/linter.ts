@@ -0,0 +1,133 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Rule-based checks of ad texts for common Google Ads editorial disapprovals
+ * (see https://support.google.com/adspolicy/answer/6021546).
+ */
+
+interface LintRule {
+  name: string;
+  check: (text: string) => string | undefined;
+}
+
+// words of 4+ letters in upper case (shorter ones are usually acronyms like USA)
+const ALL_CAPS_RE = /(?<![\p{L}\p{N}])\p{Lu}{4,}(?![\p{L}\p{N}])/gu;
+const REPEATED_PUNCTUATION_RE = /[!?.,;:]{2,}/g;
+const GIMMICKY_SYMBOLS_RE =
+  /[★☆✓✔✗✘→←↑↓⇒♥❤☺☻•@#^*~|<>{}[\]_\\=]|(?![©®™])\p{Extended_Pictographic}/gu;
+// 7 or more digits possibly separated by spaces, dots, dashes or brackets
+const PHONE_RE = /\+?\(?\d(?:[\s().-]*\d){6,}/g;
+const LEADING_PUNCTUATION_RE = /^[\p{P}\p{S}]/u;
+// spaced out letters like "F R E E"
+const SPACED_LETTERS_RE = /(?<!\S)(?:\p{L}\s){2,}\p{L}(?!\S)/u;
+
+const RULES: LintRule[] = [
+  {
+    name: 'all caps',
+    check: text => {
+      const words = text.match(ALL_CAPS_RE);
+      return words ? words.join(', ') : undefined;
+    },
+  },
+  {
+    name: 'repeated punctuation',
+    check: text => text.match(REPEATED_PUNCTUATION_RE)?.join(', '),
+  },
+  {
+    name: 'gimmicky symbols',
+    check: text => text.match(GIMMICKY_SYMBOLS_RE)?.join(''),
+  },
+  {
+    name: 'phone number',
+    check: text => text.match(PHONE_RE)?.join(', '),
+  },
+  {
+    name: 'leading punctuation',
+    check: text => text.trim().match(LEADING_PUNCTUATION_RE)?.[0],
+  },
+  {
+    name: 'non-standard spacing',
+    check: text => {
+      if (text !== text.trim()) return 'leading/trailing space';
+      if (/\s{2,}/.test(text)) return 'multiple spaces';
+      if (/\s[,.!?;:]/.test(text)) return 'space before punctuation';
+      return text.match(SPACED_LETTERS_RE)?.[0];
+    },
+  },
+];
+
+/**
+ * Parse a list of trademarked terms (separated by newlines or commas).
+ * @param {String} text
+ * @returns {String[]}
+ */
+export function parseTrademarks(text: string): string[] {
+  if (!text) return [];
+  return text
+    .toString()
+    .split(/[\n,]/)
+    .map(term => term.trim())
+    .filter(term => !!term);
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Check an ad text (headline or description) for editorial issues.
+ * @param {String} text
+ * @param [String[]] trademarks - trademarked terms that shouldn't be used
+ * @returns {String[]} issues found (empty if the text is ok)
+ */
+export function lintAdText(text: string, trademarks?: string[]): string[] {
+  const issues: string[] = [];
+  if (!text) return issues;
+  for (const rule of RULES) {
+    const details = rule.check(text);
+    if (details) {
+      issues.push(`${rule.name} (${details})`);
+    }
+  }
+  for (const term of trademarks || []) {
+    const re = new RegExp(
+      `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`,
+      'iu'
+    );
+    if (re.test(text)) {
+      issues.push(`trademark (${term})`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check a list of ad texts and format found issues (one line per flagged text).
+ * @param {String[]} texts
+ * @param [String[]] trademarks
+ * @returns {String[]} lines like '"text": issue1; issue2'
+ */
+export function lintAdTexts(texts: string[], trademarks?: string[]): string[] {
+  const lines = [];
+  for (const text of texts) {
+    const issues = lintAdText(text, trademarks);
+    if (issues.length) {
+      lines.push(`"${text}": ${issues.join('; ')}`);
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,307 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Config, IConfigReader, SETTINGS } from './config';
+import { fetchJson, getHash } from './interop';
+
+/**
+ * Caching of model API responses and recording/replaying of them.
+ * Responses are cached by a hash of an endpoint (i.e. a model) and a full
+ * request payload (contents, history, parameters, safety settings, schema).
+ */
+
+/**
+ * A storage of responses (serialized as JSON) by request keys.
+ */
+export interface ResponseStore {
+  get(key: string): string | null | undefined;
+  put(key: string, value: string): void;
+}
+
+/**
+ * Short-term storage in CacheService (values live up to 6 hours).
+ */
+export class DocumentCacheStore implements ResponseStore {
+  get(key: string) {
+    return CacheService.getDocumentCache()?.get(key);
+  }
+
+  put(key: string, value: string) {
+    if (value.length > Config.llmCache.maxCacheValueLength) return;
+    CacheService.getDocumentCache()?.put(key, value, Config.llmCache.cacheTtl);
+  }
+}
+
+/**
+ * Long-term storage on a sheet (one response per row).
+ */
+export class SheetResponseStore implements ResponseStore {
+  values: Record<string, string> | undefined;
+
+  _getSheet() {
+    const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+    let sheet = spreadsheet.getSheetByName(Config.sheets.LlmCache);
+    if (!sheet) {
+      sheet = spreadsheet.insertSheet(Config.sheets.LlmCache);
+      sheet.getRange(1, 1, 1, 3).setValues([['key', 'response', 'updated']]);
+      sheet.hideSheet();
+    }
+    return sheet;
+  }
+
+  _load() {
+    if (this.values) return this.values;
+    this.values = {};
+    const sheet = this._getSheet();
+    if (sheet.getLastRow() > 1) {
+      for (const row of sheet
+        .getRange(2, 1, sheet.getLastRow() - 1, 2)
+        .getValues()) {
+        this.values[row[0]] = row[1];
+      }
+    }
+    return this.values;
+  }
+
+  get(key: string) {
+    return this._load()[key];
+  }
+
+  put(key: string, value: string) {
+    // a cell can't hold more than 50000 characters
+    if (value.length > Config.llmCache.maxSheetValueLength) return;
+    const values = this._load();
+    if (values[key] === value) return;
+    values[key] = value;
+    this._getSheet().appendRow([key, value, new Date().toISOString()]);
+  }
+}
+
+export interface RecordedResponse {
+  key: string;
+  url: string;
+  request: any;
+  response: any;
+}
+
+export type RecordingMode = 'record' | 'replay';
+
+/**
+ * Records model API traffic of a run or replays it (offline).
+ */
+export class ModelTrafficRecorder {
+  mode: RecordingMode;
+  entries: RecordedResponse[];
+
+  /**
+   * @param {RecordingMode} mode
+   * @param [RecordedResponse[]] entries - recorded traffic to replay
+   */
+  constructor(mode: RecordingMode, entries?: RecordedResponse[]) {
+    this.mode = mode;
+    this.entries = entries || [];
+  }
+
+  /**
+   * Find a recorded response.
+   * @param {String} key - request key
+   * @throws {Error} if there is no such request in the recording
+   */
+  replay(key: string) {
+    const entry = this.entries.find(entry => entry.key === key);
+    if (!entry) {
+      throw new Error(
+        `There is no recorded response for a request (key ${key}), the request differs from the recorded ones`
+      );
+    }
+    return entry.response;
+  }
+
+  record(key: string, url: string, request: any, response: any) {
+    if (this.mode !== 'record') return;
+    this.entries.push({ key, url, request, response });
+  }
+}
+
+let recorder: ModelTrafficRecorder | undefined;
+
+/**
+ * Set (or reset) a recorder used by all model API calls.
+ * @param [ModelTrafficRecorder] value
+ */
+export function setTrafficRecorder(value?: ModelTrafficRecorder) {
+  recorder = value;
+}
+
+/**
+ * Create a recorder according to the settings (LLM_Record_Mode and
+ * LLM_Replay_File) unless it's already created.
+ * @param {IConfigReader} configReader
+ */
+export function initTrafficRecorder(configReader: IConfigReader) {
+  if (recorder) return recorder;
+  const mode = (configReader.getValue(SETTINGS.LLM_Record_Mode) || '')
+    .toString()
+    .trim()
+    .toLocaleLowerCase();
+  if (!mode) return undefined;
+  if (mode === 'record') {
+    recorder = new ModelTrafficRecorder('record');
+  } else if (mode === 'replay') {
+    const fileId = configReader.getValue(SETTINGS.LLM_Replay_File);
+    if (!fileId) {
+      throw new Error(
+        'Please specify an id of a file with recorded traffic in the LLM_Replay_File setting'
+      );
+    }
+    let content: string;
+    try {
+      content = DriveApp.getFileById(fileId).getBlob().getDataAsString();
+    } catch (e) {
+      // only files created by the script are accessible (drive.file scope)
+      throw new Error(
+        `Could not read the file ${fileId} with recorded traffic (it should be a file recorded by the script): ${e}`
+      );
+    }
+    recorder = new ModelTrafficRecorder('replay', JSON.parse(content));
+  } else {
+    throw new Error(
+      `Unknown LLM_Record_Mode '${mode}', supported values: record, replay`
+    );
+  }
+  return recorder;
+}
+
+/**
+ * Save recorded traffic (if any) to a file on Drive.
+ * @returns {String|undefined} url of the file
+ */
+export function saveRecordedTraffic() {
+  if (!recorder || recorder.mode !== 'record' || !recorder.entries.length) {
+    return;
+  }
+  const file = DriveApp.createFile(
+    `llm-traffic-${new Date().toISOString()}.json`,
+    JSON.stringify(recorder.entries, null, 2),
+    'application/json'
+  );
+  Logger.log(
+    `Recorded ${
+      recorder.entries.length
+    } model responses to ${file.getUrl()} (file id: ${file.getId()})`
+  );
+  recorder.entries = [];
+  return file.getUrl();
+}
+
+/**
+ * Calculate a key of a request to a model.
+ * @param {String} url - model's endpoint
+ * @param payload - request payload
+ * @param [Number] variant - index of a repeated identical request
+ * @returns {String}
+ */
+export function getRequestKey(url: string, payload: any, variant?: number) {
+  return (
+    'llm_' +
+    getHash(
+      url + '\n' + JSON.stringify(payload) + (variant ? `\n${variant}` : '')
+    )
+  );
+}
+
+/**
+ * Sends requests to model APIs using cached (or recorded) responses.
+ */
+export class ModelResponseCache {
+  stores: ResponseStore[];
+  /** the last response was taken from a store or a recording */
+  lastCached = false;
+
+  constructor(stores: ResponseStore[]) {
+    this.stores = stores;
+  }
+
+  /**
+   * Send a request (as fetchJson) unless its response is cached.
+   * @param {String} url
+   * @param request - request parameters (with payload)
+   * @param [Number] variant - index of a repeated identical request
+   *  (repeats are cached separately)
+   * @returns parsed response
+   */
+  fetch(url: string, request: any, variant?: number) {
+    this.lastCached = false;
+    if (!this.stores.length && !recorder) {
+      return fetchJson(url, request);
+    }
+    const key = getRequestKey(url, request.payload, variant);
+    if (recorder?.mode === 'replay') {
+      this.lastCached = true;
+      return recorder.replay(key);
+    }
+    let response;
+    for (let i = 0; i < this.stores.length; i++) {
+      const cached = this.stores[i].get(key);
+      if (cached === null || cached === undefined || cached === '') continue;
+      Logger.log(`Using a cached model response (${key})`);
+      response = JSON.parse(cached);
+      this.lastCached = true;
+      // put into faster stores
+      for (const store of this.stores.slice(0, i)) {
+        store.put(key, cached);
+      }
+      break;
+    }
+    if (response === undefined) {
+      response = fetchJson(url, request);
+      const value = JSON.stringify(response);
+      for (const store of this.stores) {
+        store.put(key, value);
+      }
+    }
+    recorder?.record(key, url, request.payload, response);
+    return response;
+  }
+}
+
+/**
+ * Create a cache with stores selected in the LLM_Cache setting (a list of
+ * "cache" for CacheService and "sheet" for a sheet).
+ * @param {IConfigReader} configReader
+ * @returns {ModelResponseCache}
+ */
+export function createResponseCache(configReader: IConfigReader) {
+  initTrafficRecorder(configReader);
+  const stores: ResponseStore[] = [];
+  const names = (configReader.getValue(SETTINGS.LLM_Cache) || '')
+    .toString()
+    .toLocaleLowerCase()
+    .split(/[,\s]+/)
+    .filter((name: string) => !!name);
+  for (const name of names) {
+    if (name === 'cache') {
+      stores.push(new DocumentCacheStore());
+    } else if (name === 'sheet') {
+      stores.push(new SheetResponseStore());
+    } else {
+      throw new Error(
+        `Unknown LLM_Cache value '${name}', supported values: cache, sheet`
+      );
+    }
+  }
+  return new ModelResponseCache(stores);
+}
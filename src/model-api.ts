@@ -0,0 +1,112 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { IConfigReader, SETTINGS } from './config';
+import { OpenAiCompatibleApi } from './openai-api';
+import { JsonSchema } from './schema';
+import { GeminiVertexApi } from './vertex-api';
+
+export interface PredictOptions {
+  /** a schema the reply should be a JSON of (if the model supports it) */
+  responseSchema?: JsonSchema;
+  /**
+   * index of a repeated identical request (e.g. a candidate set requested
+   * separately), so that cached responses of repeats differ
+   */
+  cacheVariant?: number;
+}
+
+/**
+ * Tokens used by a model call.
+ */
+export interface ModelUsage {
+  promptTokens: number;
+  candidatesTokens: number;
+  totalTokens: number;
+  /** the response was taken from the cache or a recording (not billed) */
+  cached?: boolean;
+}
+
+/**
+ * A model provider (LLM backend) used by Predictor.
+ */
+export interface IModelApi {
+  configReader: IConfigReader;
+  logging: boolean;
+  /** name of the model (for usage accounting) */
+  modelName?: string;
+  /** usage of the last predict call (if the provider reports it) */
+  lastUsage?: ModelUsage;
+  /**
+   * Send a prompt to the model and return its reply.
+   * @param {String} prompt
+   * @param {Array} history - previous messages of the chat in the provider's
+   *  own format, the prompt and the reply are appended to it
+   * @param {PredictOptions} options
+   */
+  predict(prompt: string, history?: any[], options?: PredictOptions): string;
+  /**
+   * Generate several alternative replies to a prompt in one request
+   * (if supported). Only the first reply is appended to the history.
+   * @param {String} prompt
+   * @param {Number} count - number of replies
+   * @param {Array} history
+   * @param {PredictOptions} options
+   */
+  predictCandidates?(
+    prompt: string,
+    count: number,
+    history?: any[],
+    options?: PredictOptions
+  ): string[];
+  /**
+   * Count tokens of a prompt with the model's tokenizer (if supported).
+   * @param {String} prompt
+   * @returns {Number|undefined} undefined if tokens can't be counted
+   */
+  countTokens?(prompt: string): number | undefined;
+}
+
+export enum ModelProvider {
+  Vertex = 'vertex',
+  OpenAi = 'openai',
+}
+
+/**
+ * Create a model provider selected by the LLM_Provider setting.
+ * @param {String} projectId - GCP project id (for Vertex AI)
+ * @param {IConfigReader} configReader
+ */
+export function createModelApi(
+  projectId: string,
+  configReader: IConfigReader
+): IModelApi {
+  const provider = (configReader.getValue(SETTINGS.LLM_Provider) || '')
+    .toString()
+    .toLocaleLowerCase();
+  if (provider === ModelProvider.OpenAi) {
+    return new OpenAiCompatibleApi(configReader);
+  }
+  if (provider && provider !== ModelProvider.Vertex) {
+    throw new Error(
+      `Unknown LLM provider '${provider}', supported values: ${Object.values(
+        ModelProvider
+      ).join(', ')}`
+    );
+  }
+  return new GeminiVertexApi(projectId, configReader);
+}
@@ -0,0 +1,232 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { SETTINGS, Config, IConfigReader } from './config';
+import { ModelResponseCache, createResponseCache } from './llm-cache';
+import { IModelApi, ModelUsage, PredictOptions } from './model-api';
+import { JsonSchema } from './schema';
+
+/**
+ * Model provider for OpenAI-compatible chat completions API
+ * (e.g. self-hosted models or a local gateway).
+ */
+export class OpenAiCompatibleApi implements IModelApi {
+  configReader: IConfigReader;
+  url: string;
+  modelName: string;
+  apiKey: string;
+  modelParams: any;
+  logging: boolean;
+  structuredOutput: boolean;
+  lastUsage: ModelUsage | undefined;
+  cache: ModelResponseCache;
+
+  constructor(configReader: IConfigReader) {
+    this.configReader = configReader;
+    this.url = this.configReader.getValue(SETTINGS.LLM_Uri);
+    if (!this.url) {
+      throw new Error(
+        'Please specify an endpoint of chat completions API (e.g. https://host/v1/chat/completions) in the LLM_Uri setting'
+      );
+    }
+    this.modelName =
+      this.configReader.getValue(SETTINGS.LLM_Name) || Config.openAi.modelName;
+    this.apiKey =
+      this.configReader.getValue(SETTINGS.LLM_API_KEY) ||
+      PropertiesService.getDocumentProperties().getProperty(
+        SETTINGS.LLM_API_KEY
+      ) ||
+      '';
+
+    // set modelParams (mapping our names to the API ones)
+    this.modelParams = {
+      max_tokens: Config.vertexAi.modelParams.maxOutputTokens,
+    };
+    const temperature = this.configReader.getValue(
+      SETTINGS.LLM_Params_temperature
+    );
+    if (temperature) {
+      this.modelParams.temperature = Number(temperature);
+    }
+    const topP = this.configReader.getValue(SETTINGS.LLM_Params_topP);
+    if (topP) {
+      this.modelParams.top_p = Number(topP);
+    }
+
+    this.structuredOutput =
+      this.configReader
+        .getValue(SETTINGS.LLM_Structured_Output)
+        .toString()
+        .toLocaleUpperCase() !== 'FALSE';
+
+    this.cache = createResponseCache(this.configReader);
+    this.logging = false;
+  }
+
+  /**
+   * @param {String} prompt
+   * @param {Array} history
+   * @param {PredictOptions} options
+   */
+  predict(prompt: string, history?: any[], options?: PredictOptions) {
+    return this.predictCandidates(prompt, 1, history, options)[0];
+  }
+
+  /**
+   * Generate several replies (choices) in one request.
+   * Only the first one is added to the history.
+   * @param {String} prompt
+   * @param {Number} count - number of choices
+   * @param {Array} history
+   * @param {PredictOptions} options
+   * @returns {String[]}
+   */
+  predictCandidates(
+    prompt: string,
+    count: number,
+    history?: any[],
+    options?: PredictOptions
+  ): string[] {
+    history = history || [];
+    history.push({
+      role: 'user',
+      content: prompt,
+    });
+    const data: any = Object.assign(
+      {
+        model: this.modelName,
+        messages: history.slice(0, history.length),
+      },
+      this.modelParams
+    );
+    if (count > 1) {
+      data.n = count;
+    }
+    // structured outputs require an object at the root,
+    // so other replies are wrapped into {items: ...} and unwrapped back
+    const wrapped =
+      !!options?.responseSchema &&
+      this.structuredOutput &&
+      options.responseSchema.type !== 'object';
+    if (options?.responseSchema && this.structuredOutput) {
+      const schema: JsonSchema = wrapped
+        ? {
+            type: 'object',
+            properties: { items: options.responseSchema },
+            required: ['items'],
+          }
+        : options.responseSchema;
+      data.response_format = {
+        type: 'json_schema',
+        json_schema: {
+          name: 'reply',
+          strict: true,
+          schema: toStrictSchema(schema),
+        },
+      };
+    }
+    if (this.logging) {
+      Logger.log(`OpenAiApi: sending payload: ${JSON.stringify(data)}`);
+    }
+
+    const request: any = {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      payload: data,
+      muteHttpExceptions: true,
+    };
+    if (this.apiKey) {
+      request.headers['authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const res = this.cache.fetch(this.url, request, options?.cacheVariant);
+    const choices: any[] = res?.choices || [];
+    if (!choices.length) {
+      throw new Error(`Uknown response from the API: ${JSON.stringify(res)}`);
+    }
+    const replies: string[] = [];
+    for (const [i, choice] of choices.entries()) {
+      if (choice.finish_reason === 'content_filter') {
+        throw new Error(
+          `Request was blocked as it triggered API content filters.\n Original prompt: ${prompt}`
+        );
+      }
+      const content = choice.message?.content || '';
+      replies[choice.index ?? i] = wrapped ? unwrapReply(content) : content;
+    }
+    this.lastUsage = res.usage
+      ? {
+          promptTokens: res.usage.prompt_tokens || 0,
+          candidatesTokens: res.usage.completion_tokens || 0,
+          totalTokens: res.usage.total_tokens || 0,
+          cached: this.cache.lastCached,
+        }
+      : undefined;
+    history.push({
+      role: 'assistant',
+      content: replies[0],
+    });
+    if (this.logging) {
+      Logger.log(`OpenAiApi: parsed response: ${replies.join('\n---\n')}`);
+    }
+    return replies;
+  }
+}
+
+/**
+ * Convert a schema to the form required by the strict mode of structured
+ * outputs: all properties of objects are required and no others are allowed.
+ * @param {JsonSchema} schema
+ * @returns a copy of the schema
+ */
+export function toStrictSchema(schema: JsonSchema): any {
+  const res: any = { ...schema };
+  if (schema.items) {
+    res.items = toStrictSchema(schema.items);
+  }
+  if (schema.type === 'object') {
+    const properties = schema.properties || {};
+    res.properties = Object.fromEntries(
+      Object.entries(properties).map(([name, prop]) => [
+        name,
+        toStrictSchema(prop),
+      ])
+    );
+    res.required = Object.keys(properties);
+    res.additionalProperties = false;
+  }
+  return res;
+}
+
+/**
+ * Extract the value of a reply wrapped into {items: ...}.
+ * @param {String} reply
+ * @returns {String} the unwrapped value as JSON, or the reply if it isn't wrapped
+ */
+function unwrapReply(reply: string): string {
+  try {
+    const value = JSON.parse(reply);
+    if (value && typeof value === 'object' && 'items' in value) {
+      return JSON.stringify(value.items);
+    }
+  } catch {
+    // not a JSON, leave it to the reply parsing
+  }
+  return reply;
+}
@@ -0,0 +1,163 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Config, IConfigReader, SETTINGS } from './config';
+
+/**
+ * Configuration overrides for customers, campaigns and ad groups.
+ * They are defined on a separate sheet with one override per row:
+ *  level (customer, campaign or adgroup) | id | setting | value
+ * and applied hierarchically: ad group's values override campaign's ones,
+ * campaign's values override customer's ones, and customer's values override
+ * the Configuration sheet.
+ */
+
+export enum OverrideLevel {
+  Customer = 'customer',
+  Campaign = 'campaign',
+  AdGroup = 'adgroup',
+}
+
+export interface ConfigOverride {
+  level: OverrideLevel;
+  id: string;
+  /** setting name (see SETTINGS) */
+  name: string;
+  value: any;
+}
+
+/**
+ * Ids of entities a row of keywords belongs to.
+ */
+export interface OverrideScope {
+  customer_id?: string | number;
+  campaign_id?: string | number;
+  adgroup_id?: string | number;
+}
+
+export const OVERRIDES_COLUMNS = ['level', 'id', 'setting', 'value'];
+
+// ids can be entered with dashes (e.g. customer ids as 123-456-7890)
+function normalizeId(id: any) {
+  return (id ?? '').toString().replaceAll('-', '').trim();
+}
+
+/**
+ * Parse overrides from values of the Overrides sheet (without the header).
+ * @param {Array} values - rows of level, id, setting and value
+ * @returns {ConfigOverride[]}
+ * @throws {Error} on unknown levels or settings
+ */
+export function parseConfigOverrides(values: any[][]): ConfigOverride[] {
+  const levels = Object.values(OverrideLevel) as string[];
+  const settings = Object.values(SETTINGS).map(name => name.toLowerCase());
+  const overrides: ConfigOverride[] = [];
+  values.forEach((row, i) => {
+    const level = (row[0] || '').toString().trim().toLocaleLowerCase();
+    const id = normalizeId(row[1]);
+    const name = (row[2] || '').toString().trim();
+    if (!level && !id && !name) return;
+    // data rows start with #2 in the sheet
+    const rowNo = i + 2;
+    if (!levels.includes(level)) {
+      throw new Error(
+        `Unknown override level "${row[0]}" in row ${rowNo} of ${
+          Config.sheets.Overrides
+        } sheet, supported levels: ${levels.join(', ')}`
+      );
+    }
+    if (!id) {
+      throw new Error(
+        `Missing id in row ${rowNo} of ${Config.sheets.Overrides} sheet`
+      );
+    }
+    if (!settings.includes(name.toLowerCase())) {
+      throw new Error(
+        `Unknown setting "${name}" in row ${rowNo} of ${Config.sheets.Overrides} sheet`
+      );
+    }
+    overrides.push({ level: level as OverrideLevel, id, name, value: row[3] });
+  });
+  return overrides;
+}
+
+/**
+ * Load overrides from the Overrides sheet (if it exists).
+ * @returns {ConfigOverride[]}
+ */
+export function loadConfigOverrides(): ConfigOverride[] {
+  const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(
+    Config.sheets.Overrides
+  );
+  if (!sheet || sheet.getLastRow() < 2) return [];
+  const values = sheet
+    .getRange(2, 1, sheet.getLastRow() - 1, OVERRIDES_COLUMNS.length)
+    .getValues();
+  return parseConfigOverrides(values);
+}
+
+/**
+ * Resolve overrides for a scope.
+ * @param {ConfigOverride[]} overrides
+ * @param {OverrideScope} scope
+ * @returns values of overridden settings by lowercased names
+ */
+export function resolveConfigOverrides(
+  overrides: ConfigOverride[],
+  scope: OverrideScope
+): Record<string, any> {
+  const ids: Record<OverrideLevel, string> = {
+    [OverrideLevel.Customer]: normalizeId(scope.customer_id),
+    [OverrideLevel.Campaign]: normalizeId(scope.campaign_id),
+    [OverrideLevel.AdGroup]: normalizeId(scope.adgroup_id),
+  };
+  const values: Record<string, any> = {};
+  // from the least to the most specific level, so that the latter wins
+  for (const level of [
+    OverrideLevel.Customer,
+    OverrideLevel.Campaign,
+    OverrideLevel.AdGroup,
+  ]) {
+    for (const override of overrides) {
+      if (override.level === level && override.id === ids[level]) {
+        values[override.name.toLowerCase()] = override.value;
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * A config reader returning overridden values and falling back to
+ * another reader for other settings.
+ */
+export class OverridesConfigReader implements IConfigReader {
+  base: IConfigReader;
+  values: Record<string, any>;
+
+  constructor(base: IConfigReader, values: Record<string, any>) {
+    this.base = base;
+    this.values = values;
+  }
+
+  getValue(name: string, defaultValue?: string) {
+    const value = this.values[name.toLowerCase()];
+    if (value !== undefined && value !== '') {
+      return value;
+    }
+    return this.base.getValue(name, defaultValue);
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export type AssetType = 'headline' | 'description';
+
+/**
+ * Number of positions an asset can be pinned to in RSA.
+ */
+const SLOTS: Record<AssetType, number> = {
+  headline: 3,
+  description: 2,
+};
+
+export interface PinningRule {
+  /** original text of the rule */
+  text: string;
+  type: AssetType;
+  /** positions (1-based) to pin matched assets to, they are used in turn */
+  positions: number[];
+  /** apply the rule only to the first matched asset */
+  first: boolean;
+  matches: (asset: PinnableAsset, customerName: string) => boolean;
+}
+
+export interface PinnableAsset {
+  text: string;
+  /** the asset was taken from a generic headlines/descriptions range */
+  generic?: boolean;
+}
+
+/**
+ * Parse pinning rules from text (one rule per line) in the format:
+ *  [first] <matcher> => <positions>
+ * where matcher is one of:
+ *  - CUSTOMER_NAME - assets containing the customer name
+ *  - GENERIC - generic assets (see ADSEDITOR_add_generic_headlines)
+ *  - /regexp/flags - assets matching a regular expression
+ *  - any other text - assets containing it (case-insensitive)
+ * and positions is a list of H1-H3 or D1-D2 separated by comma or "|"
+ * (matched assets are pinned to them in turn).
+ * @example
+ *  CUSTOMER_NAME => H1
+ *  first GENERIC => H2
+ *  /buy|order|shop/i => H2|H3
+ * @param {String} text
+ * @returns {PinningRule[]}
+ */
+export function parsePinningRules(text: string): PinningRule[] {
+  const rules: PinningRule[] = [];
+  if (!text) return rules;
+  for (let line of text.toString().split('\n')) {
+    line = line.trim();
+    if (!line || line.startsWith('#')) continue;
+    const sepIdx = line.lastIndexOf('=>');
+    if (sepIdx === -1) {
+      throw new Error(`Invalid pinning rule (missing "=>"): ${line}`);
+    }
+    let matcher = line.substring(0, sepIdx).trim();
+    const positionsText = line.substring(sepIdx + 2).trim();
+
+    let type: AssetType | undefined;
+    const positions: number[] = [];
+    for (const pos of positionsText.split(/[,|]/)) {
+      const match = pos.trim().match(/^([HD])([1-3])$/i);
+      if (!match) {
+        throw new Error(`Invalid position "${pos}" in pinning rule: ${line}`);
+      }
+      const posType =
+        match[1].toUpperCase() === 'H' ? 'headline' : 'description';
+      const posNum = parseInt(match[2]);
+      if (type && type !== posType) {
+        throw new Error(
+          `Pinning rule mixes headline and description positions: ${line}`
+        );
+      }
+      if (posNum > SLOTS[posType]) {
+        throw new Error(`Invalid position "${pos}" in pinning rule: ${line}`);
+      }
+      type = posType;
+      positions.push(posNum);
+    }
+
+    let first = false;
+    if (/^first\s+/i.test(matcher)) {
+      first = true;
+      matcher = matcher.replace(/^first\s+/i, '');
+    }
+    if (!matcher) {
+      throw new Error(`Invalid pinning rule (missing matcher): ${line}`);
+    }
+    rules.push({
+      text: line,
+      type: type!,
+      positions,
+      first,
+      matches: createMatcher(matcher, line),
+    });
+  }
+  return rules;
+}
+
+function createMatcher(
+  matcher: string,
+  line: string
+): (asset: PinnableAsset, customerName: string) => boolean {
+  if (matcher === 'CUSTOMER_NAME') {
+    return (asset, customerName) =>
+      !!customerName &&
+      asset.text.toLocaleLowerCase().includes(customerName.toLocaleLowerCase());
+  }
+  if (matcher === 'GENERIC') {
+    return asset => !!asset.generic;
+  }
+  const reMatch = matcher.match(/^\/(.+)\/([a-z]*)$/);
+  if (reMatch) {
+    let re: RegExp;
+    try {
+      // 'g' flag makes RegExp.test stateful, so it's ignored
+      re = new RegExp(reMatch[1], reMatch[2].replace('g', ''));
+    } catch (e) {
+      throw new Error(`Invalid regular expression in pinning rule: ${line}`);
+    }
+    return asset => re.test(asset.text);
+  }
+  const substr = matcher.toLocaleLowerCase();
+  return asset => asset.text.toLocaleLowerCase().includes(substr);
+}
+
+/**
+ * Check that pinned assets leave enough unpinned ones to fill all other positions.
+ * @param {Array} positions - pinned positions of assets (undefined for unpinned)
+ * @param {String} type - assets type
+ * @returns {String|undefined} an error message if pinning is invalid
+ */
+export function validatePinning(
+  positions: (number | undefined)[],
+  type: AssetType
+): string | undefined {
+  const pinnedSlots = new Set(positions.filter(pos => !!pos));
+  const unpinnedCount = positions.filter(pos => !pos).length;
+  const freeSlots = SLOTS[type] - pinnedSlots.size;
+  if (unpinnedCount < freeSlots) {
+    return `${unpinnedCount} unpinned ${type}s are not enough to fill ${freeSlots} not pinned positions`;
+  }
+  return undefined;
+}
+
+/**
+ * Calculate positions to pin assets to according to the rules.
+ * A rule is applied to an asset only if it hasn't been pinned by a previous rule.
+ * If the resulting pinning is invalid then the lastest pins are dropped.
+ * @param {PinnableAsset[]} assets
+ * @param {PinningRule[]} rules
+ * @param {String} type - assets type (rules for other types are skipped)
+ * @param {String} customerName
+ * @returns positions (1-based) for each asset (undefined for unpinned) and warnings
+ */
+export function applyPinningRules(
+  assets: PinnableAsset[],
+  rules: PinningRule[],
+  type: AssetType,
+  customerName: string
+): { positions: (number | undefined)[]; warnings: string[] } {
+  const positions: (number | undefined)[] = assets.map(() => undefined);
+  const warnings: string[] = [];
+  // indexes of pinned assets in the order of pinning
+  const pinned: number[] = [];
+  for (const rule of rules) {
+    if (rule.type !== type) continue;
+    let matchCount = 0;
+    for (let i = 0; i < assets.length; i++) {
+      if (positions[i] || !rule.matches(assets[i], customerName)) continue;
+      positions[i] = rule.positions[matchCount % rule.positions.length];
+      pinned.push(i);
+      matchCount += 1;
+      if (rule.first) break;
+    }
+  }
+  let error = validatePinning(positions, type);
+  while (error && pinned.length) {
+    const idx = pinned.pop()!;
+    warnings.push(`${error}, unpinning "${assets[idx].text}"`);
+    positions[idx] = undefined;
+    error = validatePinning(positions, type);
+  }
+  return { positions, warnings };
+}
@@ -0,0 +1,207 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Config } from './config';
+import { getAdsTextLength, isAdsLengthValid } from './ads-length';
+import { findNearDuplicates, getComparisonTokens } from './similarity';
+
+/**
+ * Quality analysis of generated ads (see quality_report) approximating
+ * Google Ads' Ad Strength guidance: enough unique headlines and descriptions
+ * with popular keywords (https://support.google.com/google-ads/answer/9921843).
+ */
+
+// max number of headlines and descriptions in RSA
+const MAX_HEADLINES = 15;
+const MAX_DESCRIPTIONS = 4;
+
+export enum AdStrength {
+  Poor = 'Poor',
+  Average = 'Average',
+  Good = 'Good',
+  Excellent = 'Excellent',
+}
+
+export interface AdGroupQuality {
+  /** number of unique headlines with valid length */
+  headlines: number;
+  /** number of unique descriptions with valid length */
+  descriptions: number;
+  /** share of top keywords appearing in at least one headline (0..1) */
+  keywordCoverage: number;
+  /** top keywords not appearing in any headline */
+  missingKeywords: string[];
+  /** average share of the max length used by valid texts (0..1) */
+  lengthUse: number;
+  /** number of near-duplicate headlines and descriptions */
+  duplicates: number;
+  strength: AdStrength;
+  /** what to improve to get a better rating */
+  suggestions: string[];
+}
+
+export const QUALITY_REPORT_COLUMNS = [
+  'customer_id',
+  'campaign_name',
+  'adgroup_id',
+  'adgroup_name',
+  'headlines',
+  'descriptions',
+  'keyword_coverage',
+  'length_use',
+  'duplicates',
+  'ad_strength',
+  'suggestions',
+];
+
+/**
+ * Check that a keyword appears in a text (all its words ignoring case,
+ * punctuation, stopwords and order).
+ * @param {String} keyword
+ * @param {String} text
+ */
+function containsKeyword(keyword: string, text: string) {
+  const kwWords = getComparisonTokens(keyword);
+  if (!kwWords.length) return false;
+  const words = new Set(getComparisonTokens(text));
+  return kwWords.every(word => words.has(word));
+}
+
+/**
+ * Split texts into unique ones with valid length and count near-duplicates.
+ */
+function getValidTexts(
+  texts: string[],
+  min: number,
+  max: number,
+  similarityThreshold: number
+) {
+  const res = findNearDuplicates(texts, similarityThreshold);
+  return {
+    valid: res.unique.filter(text => isAdsLengthValid(text, min, max)),
+    duplicates: res.duplicates.length,
+  };
+}
+
+/**
+ * Rate ads as Google Ads' Ad Strength does (approximately):
+ * points are given for the number of headlines and descriptions,
+ * keywords in headlines, no duplicates and use of the available length.
+ * @param {AdGroupQuality} quality
+ * @returns {AdStrength}
+ */
+export function getAdStrength(
+  quality: Omit<AdGroupQuality, 'strength' | 'suggestions'>
+): AdStrength {
+  // an ad needs at least 3 headlines and 2 descriptions
+  if (quality.headlines < 3 || quality.descriptions < 2) {
+    return AdStrength.Poor;
+  }
+  let points = 0;
+  points +=
+    quality.headlines >= MAX_HEADLINES ? 3 : quality.headlines >= 10 ? 2 : 1;
+  points += quality.descriptions >= MAX_DESCRIPTIONS ? 2 : 1;
+  points +=
+    quality.keywordCoverage >= 0.8 ? 2 : quality.keywordCoverage >= 0.4 ? 1 : 0;
+  points += quality.duplicates ? 0 : 1;
+  points += quality.lengthUse >= 0.6 ? 1 : 0;
+  if (points >= 8) return AdStrength.Excellent;
+  if (points >= 6) return AdStrength.Good;
+  if (points >= 4) return AdStrength.Average;
+  return AdStrength.Poor;
+}
+
+/**
+ * Analyze generated headlines and descriptions of an ad group.
+ * @param {String[]} keywords - keywords sorted by priority (e.g. clicks)
+ * @param {String[]} headlines
+ * @param {String[]} descriptions
+ * @param {Number} similarityThreshold - min similarity of near-duplicates
+ * @returns {AdGroupQuality}
+ */
+export function analyzeAdGroup(
+  keywords: string[],
+  headlines: string[],
+  descriptions: string[],
+  similarityThreshold: number
+): AdGroupQuality {
+  const ads = Config.ads;
+  const validHeadlines = getValidTexts(
+    headlines,
+    ads.rsa_headline_min_length,
+    ads.rsa_headline_max_length,
+    similarityThreshold
+  );
+  const validDescriptions = getValidTexts(
+    descriptions,
+    ads.rsa_description_min_length,
+    ads.rsa_description_max_length,
+    similarityThreshold
+  );
+  const topKeywords = keywords
+    .filter(keyword => !!keyword)
+    .slice(0, Config.quality.topKeywords);
+  const missingKeywords = topKeywords.filter(
+    keyword =>
+      !validHeadlines.valid.some(text => containsKeyword(keyword, text))
+  );
+  const lengthUses = [
+    ...validHeadlines.valid.map(
+      text => getAdsTextLength(text) / ads.rsa_headline_max_length
+    ),
+    ...validDescriptions.valid.map(
+      text => getAdsTextLength(text) / ads.rsa_description_max_length
+    ),
+  ];
+  const quality = {
+    headlines: validHeadlines.valid.length,
+    descriptions: validDescriptions.valid.length,
+    keywordCoverage: topKeywords.length
+      ? (topKeywords.length - missingKeywords.length) / topKeywords.length
+      : 1,
+    missingKeywords,
+    lengthUse: lengthUses.length
+      ? lengthUses.reduce((sum, value) => sum + value, 0) / lengthUses.length
+      : 0,
+    duplicates: validHeadlines.duplicates + validDescriptions.duplicates,
+  };
+
+  const suggestions: string[] = [];
+  if (quality.headlines < MAX_HEADLINES) {
+    suggestions.push(`add ${MAX_HEADLINES - quality.headlines} headlines`);
+  }
+  if (quality.descriptions < MAX_DESCRIPTIONS) {
+    suggestions.push(
+      `add ${MAX_DESCRIPTIONS - quality.descriptions} descriptions`
+    );
+  }
+  if (missingKeywords.length) {
+    suggestions.push(
+      `use keywords in headlines: ${missingKeywords.join(', ')}`
+    );
+  }
+  if (quality.duplicates) {
+    suggestions.push(`rewrite ${quality.duplicates} near-duplicates`);
+  }
+  if (quality.lengthUse < 0.6 && lengthUses.length) {
+    suggestions.push('use more of the available length');
+  }
+  return {
+    ...quality,
+    strength: getAdStrength(quality),
+    suggestions,
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { getAdsTextLength } from './ads-length';
+import { lintAdText } from './linter';
+import { getComparisonTokens, getTextSimilarity } from './similarity';
+
+/**
+ * Scoring of generated assets (headlines, descriptions) for selecting
+ * the best ones from a pool of candidates.
+ */
+
+export interface AssetScore {
+  text: string;
+  /** share of words of the best matching keyword used in the text (0..1) */
+  coverage: number;
+  /** share of the max length used (0..1) */
+  length: number;
+  /** 1 minus similarity to the most similar other text (0..1) */
+  uniqueness: number;
+  /** 1 for texts without lint issues, less for each issue (0..1) */
+  lint: number;
+  /** model's (judge) score normalized to 0..1 (if requested) */
+  judge?: number;
+  /** weighted average of the scores above */
+  total: number;
+}
+
+export type ScoreWeights = Record<
+  'coverage' | 'length' | 'uniqueness' | 'lint' | 'judge',
+  number
+>;
+
+export interface ScoringOptions {
+  keywords: string[];
+  /** max length of texts in Google Ads units */
+  maxLength: number;
+  trademarks?: string[];
+  /** judge's scores (0..10) for each text */
+  judgeScores?: number[];
+  weights: ScoreWeights;
+}
+
+/**
+ * The max judge score (judge is asked to score texts from 0 to it).
+ */
+export const MAX_JUDGE_SCORE = 10;
+
+function getCoverage(text: string, keywords: string[]) {
+  const words = new Set(getComparisonTokens(text));
+  let coverage = 0;
+  for (const keyword of keywords) {
+    const kwWords = getComparisonTokens(keyword);
+    if (!kwWords.length) continue;
+    const found = kwWords.filter(word => words.has(word)).length;
+    coverage = Math.max(coverage, found / kwWords.length);
+  }
+  return coverage;
+}
+
+/**
+ * Score texts by keyword coverage, length use, uniqueness in the pool,
+ * lint cleanliness and (optionally) judge's scores.
+ * @param {String[]} texts
+ * @param {ScoringOptions} options
+ * @returns {AssetScore[]} scores in the order of texts
+ */
+export function scoreAssets(
+  texts: string[],
+  options: ScoringOptions
+): AssetScore[] {
+  const { weights } = options;
+  return texts.map((text, i) => {
+    let maxSimilarity = 0;
+    for (let j = 0; j < texts.length; j++) {
+      if (j === i) continue;
+      maxSimilarity = Math.max(
+        maxSimilarity,
+        getTextSimilarity(text, texts[j])
+      );
+    }
+    const score: AssetScore = {
+      text,
+      coverage: getCoverage(text, options.keywords),
+      length: Math.min(getAdsTextLength(text) / options.maxLength, 1),
+      uniqueness: 1 - maxSimilarity,
+      lint: 1 / (1 + lintAdText(text, options.trademarks).length),
+      total: 0,
+    };
+    const judgeScore = options.judgeScores?.[i];
+    if (judgeScore !== undefined) {
+      score.judge =
+        Math.min(Math.max(judgeScore, 0), MAX_JUDGE_SCORE) / MAX_JUDGE_SCORE;
+    }
+    let sum = 0;
+    let weightsSum = 0;
+    for (const [name, weight] of Object.entries(weights)) {
+      const value = score[<keyof ScoreWeights>name];
+      if (value === undefined) continue;
+      sum += value * weight;
+      weightsSum += weight;
+    }
+    score.total = weightsSum ? sum / weightsSum : 0;
+    return score;
+  });
+}
+
+/**
+ * Select texts with the best total scores (the best first, ties are broken
+ * by the original order).
+ * @param {AssetScore[]} scores
+ * @param {Number} count - max number of texts to select
+ * @returns {AssetScore[]}
+ */
+export function selectTopAssets(
+  scores: AssetScore[],
+  count: number
+): AssetScore[] {
+  return scores
+    .map((score, index) => ({ score, index }))
+    .sort((a, b) => b.score.total - a.score.total || a.index - b.index)
+    .slice(0, count)
+    .map(item => item.score);
+}
+
+/**
+ * Format a score for reviewers, e.g.
+ * '"Buy Shoes Online": 0.82 (coverage 1.00, length 0.53, uniqueness 0.75, lint 1.00)'
+ * @param {AssetScore} score
+ * @returns {String}
+ */
+export function formatScore(score: AssetScore): string {
+  const parts = [
+    `coverage ${score.coverage.toFixed(2)}`,
+    `length ${score.length.toFixed(2)}`,
+    `uniqueness ${score.uniqueness.toFixed(2)}`,
+    `lint ${score.lint.toFixed(2)}`,
+  ];
+  if (score.judge !== undefined) {
+    parts.push(`judge ${score.judge.toFixed(2)}`);
+  }
+  return `"${score.text}": ${score.total.toFixed(2)} (${parts.join(', ')})`;
+}
@@ -0,0 +1,117 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * A subset of JSON Schema (OpenAPI) supported by model APIs for
+ * constraining responses.
+ */
+export interface JsonSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Validate a value against a schema.
+ * @param value - a parsed JSON value
+ * @param {JsonSchema} schema
+ * @param [String] path - path of the value (for error messages)
+ * @returns {String|undefined} an error message if the value doesn't match the schema
+ */
+export function validateJson(
+  value: any,
+  schema: JsonSchema,
+  path = '$'
+): string | undefined {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return `${path} should be a string`;
+      return;
+    case 'number':
+      if (typeof value !== 'number') return `${path} should be a number`;
+      return;
+    case 'integer':
+      if (!Number.isInteger(value)) return `${path} should be an integer`;
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') return `${path} should be a boolean`;
+      return;
+    case 'array':
+      if (!Array.isArray(value)) return `${path} should be an array`;
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return `${path} should have at least ${schema.minItems} items`;
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return `${path} should have at most ${schema.maxItems} items`;
+      }
+      if (schema.items) {
+        for (let i = 0; i < value.length; i++) {
+          const error = validateJson(value[i], schema.items, `${path}[${i}]`);
+          if (error) return error;
+        }
+      }
+      return;
+    case 'object':
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return `${path} should be an object`;
+      }
+      for (const name of schema.required || []) {
+        if (value[name] === undefined) {
+          return `${path}.${name} is required`;
+        }
+      }
+      for (const [name, propSchema] of Object.entries(
+        schema.properties || {}
+      )) {
+        if (value[name] === undefined) continue;
+        const error = validateJson(value[name], propSchema, `${path}.${name}`);
+        if (error) return error;
+      }
+      return;
+  }
+}
+
+/**
+ * Parse a model's reply as JSON and validate it against a schema.
+ * Code block fences (```json) around JSON are ignored.
+ * @param {String} reply - raw model's reply
+ * @param {JsonSchema} schema
+ * @returns parsed value or an error message
+ */
+export function parseJsonReply(
+  reply: string,
+  schema: JsonSchema
+): { value?: any; error?: string } {
+  reply = (reply || '')
+    .replaceAll(/```\s*(json|JSON)/g, '')
+    .replaceAll(/```/g, '')
+    .trim();
+  let value;
+  try {
+    value = JSON.parse(reply);
+  } catch (e) {
+    return { error: `reply is not a valid JSON: ${e}` };
+  }
+  const error = validateJson(value, schema);
+  if (error) {
+    return { error };
+  }
+  return { value };
+}
@@ -0,0 +1,152 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Detection of near-duplicate ad texts (e.g. "Buy Running Shoes" and
+ * "Buy Running Shoes Online") which lower ad strength or get rejected.
+ */
+
+// words that don't make texts different
+const STOPWORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'at',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'our',
+  'the',
+  'to',
+  'with',
+  'you',
+  'your',
+]);
+
+export interface NearDuplicate {
+  text: string;
+  /** a text the duplicate is similar to */
+  similarTo: string;
+  score: number;
+}
+
+/**
+ * Split a text into words ignoring case, punctuation and stopwords.
+ * @param {String} text
+ * @returns {String[]}
+ */
+export function getComparisonTokens(text: string): string[] {
+  return (text || '')
+    .toLocaleLowerCase()
+    .replaceAll(/[\p{P}\p{S}]+/gu, ' ')
+    .split(/\s+/)
+    .filter(word => !!word && !STOPWORDS.has(word));
+}
+
+function getBigrams(text: string): string[] {
+  const chars = Array.from(text);
+  if (chars.length < 2) return chars;
+  const bigrams = [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    bigrams.push(chars[i] + chars[i + 1]);
+  }
+  return bigrams;
+}
+
+// Sørensen–Dice coefficient of two sets
+function getDice(a: string[], b: string[]) {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (!setA.size && !setB.size) return 1;
+  let common = 0;
+  for (const item of setA) {
+    if (setB.has(item)) common += 1;
+  }
+  return (2 * common) / (setA.size + setB.size);
+}
+
+/**
+ * Calculate similarity of two texts from 0 (nothing in common) to 1
+ * (the same after normalization). Words are compared for texts with spaces,
+ * character bigrams for texts in languages without spaces (e.g. Japanese).
+ * @param {String} a
+ * @param {String} b
+ * @returns {Number}
+ */
+export function getTextSimilarity(a: string, b: string): number {
+  const tokensA = getComparisonTokens(a);
+  const tokensB = getComparisonTokens(b);
+  if (tokensA.length > 1 || tokensB.length > 1) {
+    return getDice(tokensA, tokensB);
+  }
+  return getDice(getBigrams(tokensA.join('')), getBigrams(tokensB.join('')));
+}
+
+/**
+ * Find the first of texts similar to a text.
+ * @param {String} text
+ * @param {String[]} others
+ * @param {Number} threshold - min similarity (0..1)
+ * @returns {NearDuplicate|undefined}
+ */
+export function findSimilar(
+  text: string,
+  others: string[],
+  threshold: number
+): NearDuplicate | undefined {
+  for (const other of others) {
+    if (!other) continue;
+    const score = getTextSimilarity(text, other);
+    if (score >= threshold) {
+      return { text, similarTo: other, score };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Split texts into unique ones and near-duplicates. A text is a duplicate
+ * if it's similar to an existing text or a previous unique text.
+ * @param {String[]} texts
+ * @param {Number} threshold - min similarity (0..1) of duplicates
+ * @param [String[]] existing - texts to compare with but not return
+ */
+export function findNearDuplicates(
+  texts: string[],
+  threshold: number,
+  existing?: string[]
+): { unique: string[]; duplicates: NearDuplicate[] } {
+  const unique: string[] = [];
+  const duplicates: NearDuplicate[] = [];
+  const seen = (existing || []).filter(text => !!text);
+  for (const text of texts) {
+    const duplicate = findSimilar(text, seen, threshold);
+    if (duplicate) {
+      duplicates.push(duplicate);
+    } else {
+      unique.push(text);
+      seen.push(text);
+    }
+  }
+  return { unique, duplicates };
+}
@@ -0,0 +1,235 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * A small template engine for prompts.
+ * Syntax:
+ *  - {NAME} - a macro's value (lists are put one item per line)
+ *  - {NAME|format} - a formatted value, formats: lines, bullets, numbered, comma, json
+ *  - {#if NAME}...{#else}...{/if} - a block for non-empty values (else is optional)
+ *  - {#each NAME}...{/each} - a block repeated for each item of a list,
+ *    inside it {.} is the current item and {@number} is its number (from 1)
+ * Text in braces not looking like a macro name (e.g. JSON) is kept as is.
+ */
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'macro'; name: string; format?: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; else: TemplateNode[] }
+  | { type: 'each'; name: string; body: TemplateNode[] };
+
+const FORMATS: Record<string, (items: string[], value: any) => string> = {
+  lines: items => items.join('\n'),
+  bullets: items => items.map(item => '* ' + item).join('\n'),
+  numbered: items => items.map((item, i) => `${i + 1}. ${item}`).join('\n'),
+  comma: items => items.join(', '),
+  json: (items, value) =>
+    JSON.stringify(value === undefined || value === null ? '' : value),
+};
+
+const TAG_RE =
+  /\{(?:(#if|#each)\s+([A-Za-z_]\w*)|(#else|\/if|\/each)|([A-Za-z_]\w*|\.|@number)(?:\|(\w+))?)\}/g;
+
+/**
+ * Parse a template.
+ * @param {String} template
+ * @returns {TemplateNode[]}
+ * @throws {Error} on syntax errors (unknown formats, unclosed blocks, etc)
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // open blocks with lists their nodes are currently added to
+  const stack: { node?: TemplateNode; nodes: TemplateNode[] }[] = [
+    { nodes: root },
+  ];
+  let pos = 0;
+  for (const match of template.matchAll(TAG_RE)) {
+    const current = stack[stack.length - 1];
+    if (match.index! > pos) {
+      current.nodes.push({
+        type: 'text',
+        text: template.substring(pos, match.index),
+      });
+    }
+    pos = match.index! + match[0].length;
+    const [tag, blockStart, blockName, blockEnd, name, format] = match;
+    if (blockStart) {
+      const node: TemplateNode =
+        blockStart === '#if'
+          ? { type: 'if', name: blockName, then: [], else: [] }
+          : { type: 'each', name: blockName, body: [] };
+      current.nodes.push(node);
+      stack.push({
+        node,
+        nodes: node.type === 'if' ? node.then : (<any>node).body,
+      });
+    } else if (blockEnd) {
+      const node = current.node;
+      if (blockEnd === '#else') {
+        if (node?.type !== 'if' || current.nodes === node.else) {
+          throw new Error(`Unexpected ${tag} (position ${match.index})`);
+        }
+        current.nodes = node.else;
+      } else {
+        const expected = blockEnd === '/if' ? 'if' : 'each';
+        if (node?.type !== expected) {
+          throw new Error(`Unexpected ${tag} (position ${match.index})`);
+        }
+        stack.pop();
+      }
+    } else {
+      if (format && !FORMATS[format]) {
+        throw new Error(
+          `Unknown format "${format}" in ${tag}, supported formats: ${Object.keys(
+            FORMATS
+          ).join(', ')}`
+        );
+      }
+      const inLoop = stack.some(item => item.node?.type === 'each');
+      if ((name === '.' || name === '@number') && !inLoop) {
+        throw new Error(`${tag} can only be used inside {#each} block`);
+      }
+      current.nodes.push({ type: 'macro', name, format });
+    }
+  }
+  if (stack.length > 1) {
+    const node = stack[stack.length - 1].node!;
+    throw new Error(`Block {#${node.type} ${(<any>node).name}} is not closed`);
+  }
+  if (pos < template.length) {
+    root.push({ type: 'text', text: template.substring(pos) });
+  }
+  return root;
+}
+
+/**
+ * Get names of all macros used in a template.
+ * @param {TemplateNode[]} nodes
+ * @returns {String[]}
+ */
+function getMacroNames(nodes: TemplateNode[]): string[] {
+  const names: string[] = [];
+  for (const node of nodes) {
+    if (node.type === 'text') continue;
+    if (node.name !== '.' && node.name !== '@number') {
+      names.push(node.name);
+    }
+    if (node.type === 'if') {
+      names.push(...getMacroNames(node.then), ...getMacroNames(node.else));
+    } else if (node.type === 'each') {
+      names.push(...getMacroNames(node.body));
+    }
+  }
+  return names;
+}
+
+/**
+ * Check a template for syntax errors and unsupported macros.
+ * @param {String} template
+ * @param {String[]} macros - supported macros
+ * @returns {String[]} errors (empty if the template is valid)
+ */
+export function validateTemplate(template: string, macros: string[]) {
+  let nodes;
+  try {
+    nodes = parseTemplate(template);
+  } catch (e) {
+    return [(<Error>e).message];
+  }
+  const errors = [];
+  for (const name of new Set(getMacroNames(nodes))) {
+    if (!macros.includes(name)) {
+      errors.push(
+        `Unknown macro {${name}}, supported macros: ${macros.join(', ')}`
+      );
+    }
+  }
+  return errors;
+}
+
+function toItems(value: any): string[] {
+  if (value === undefined || value === null || value === '') return [];
+  if (Array.isArray(value)) {
+    return value.map(item =>
+      item === undefined || item === null ? '' : item.toString()
+    );
+  }
+  return value.toString().split('\n');
+}
+
+function isEmpty(value: any) {
+  return (
+    value === undefined ||
+    value === null ||
+    value === false ||
+    (Array.isArray(value) ? !value.length : !value.toString().trim())
+  );
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  args: Record<string, any>,
+  item?: { value: any; number: number }
+): string {
+  let result = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      result += node.text;
+      continue;
+    }
+    let value;
+    if (node.name === '.') {
+      value = item!.value;
+    } else if (node.name === '@number') {
+      value = item!.number;
+    } else if (!(node.name in args)) {
+      throw new Error(
+        `Unknown macro {${node.name}}, supported macros: ${Object.keys(
+          args
+        ).join(', ')}`
+      );
+    } else {
+      value = args[node.name];
+    }
+    if (node.type === 'macro') {
+      const format = FORMATS[node.format || 'lines'];
+      result += format(toItems(value), value);
+    } else if (node.type === 'if') {
+      result += renderNodes(isEmpty(value) ? node.else : node.then, args, item);
+    } else {
+      const items = Array.isArray(value) ? value : toItems(value);
+      items.forEach((value, i) => {
+        result += renderNodes(node.body, args, { value, number: i + 1 });
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Render a template with macros values.
+ * @param {String} template
+ * @param {Object} args - macros values (strings, numbers or lists)
+ * @returns {String}
+ * @throws {Error} on syntax errors or macros missing in args
+ */
+export function renderTemplate(
+  template: string,
+  args: Record<string, any>
+): string {
+  return renderNodes(parseTemplate(template), args);
+}
@@ -0,0 +1,95 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { getAdsTextLength } from './ads-length';
+
+/**
+ * Token counting helpers for fitting prompts into a model's budget when
+ * the model's API can't count tokens (e.g. offline or not supported).
+ */
+
+/**
+ * Estimate a number of tokens in a text: roughly 4 characters per token
+ * for alphabetic scripts and 1 token per double-width (CJK) character.
+ * @param {String} text
+ * @returns {Number}
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  // double-width characters are counted as 2 by getAdsTextLength
+  const wideCount = Math.max(getAdsTextLength(text) - text.length, 0);
+  const narrowCount = text.length - wideCount;
+  return Math.ceil(narrowCount / 4) + wideCount;
+}
+
+/**
+ * Cut a text to fit into a number of tokens (by the estimate).
+ * @param {String} text
+ * @param {Number} maxTokens
+ * @returns {String}
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+  // binary search of the longest prefix fitting into the budget
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(text.substring(0, mid)) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return text.substring(0, low);
+}
+
+/**
+ * Parse token budgets of prompts by stages from a setting value, which is
+ * either a number (for all stages) or a list of stage:number pairs
+ * (e.g. "headlines: 3000, paths: 1000").
+ * @param {String} value
+ * @param {Object} defaults - default budgets by stages
+ * @returns {Object} budgets by stages
+ * @throws {Error} on invalid values
+ */
+export function parseTokenBudgets(
+  value: string,
+  defaults: Record<string, number>
+): Record<string, number> {
+  const budgets = Object.assign({}, defaults);
+  value = (value || '').toString().trim();
+  if (!value) return budgets;
+  if (/^\d+$/.test(value)) {
+    for (const stage of Object.keys(budgets)) {
+      budgets[stage] = parseInt(value);
+    }
+    return budgets;
+  }
+  for (const item of value.split(/[,\n]/)) {
+    if (!item.trim()) continue;
+    const match = item.trim().match(/^(\w+)\s*[:=]\s*(\d+)$/);
+    if (!match || !(match[1].toLocaleLowerCase() in budgets)) {
+      throw new Error(
+        `Invalid token budget "${item.trim()}", expected a number or stage:number pairs (stages: ${Object.keys(
+          budgets
+        ).join(', ')})`
+      );
+    }
+    budgets[match[1].toLocaleLowerCase()] = parseInt(match[2]);
+  }
+  return budgets;
+}
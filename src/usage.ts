@@ -0,0 +1,235 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Config } from './config';
+import { ModelUsage } from './model-api';
+
+/**
+ * Accounting of tokens used by model calls and estimating their cost.
+ */
+
+/**
+ * Prices of a model in USD per 1M tokens.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Usage aggregated by an ad group, a stage and a model.
+ */
+export interface UsageRecord {
+  adgroupId: string;
+  stage: string;
+  model: string;
+  calls: number;
+  /** calls served from the cache or a recording (not billed) */
+  cachedCalls: number;
+  promptTokens: number;
+  candidatesTokens: number;
+  totalTokens: number;
+}
+
+export const USAGE_COLUMNS = [
+  'run',
+  'adgroup_id',
+  'stage',
+  'model',
+  'calls',
+  'cached_calls',
+  'prompt_tokens',
+  'candidates_tokens',
+  'total_tokens',
+  'estimated_cost',
+];
+
+/**
+ * Parse a price table from a setting value, one model per line (or separated
+ * by commas) as "model: input/output" with USD prices per 1M tokens, e.g.
+ *  gemini-1.5-pro: 1.25/5
+ * @param {String} value
+ * @param {Object} defaults - default prices by models
+ * @returns {Object} prices by models
+ * @throws {Error} on invalid values
+ */
+export function parsePriceTable(
+  value: string,
+  defaults: Record<string, ModelPrice>
+): Record<string, ModelPrice> {
+  const prices = Object.assign({}, defaults);
+  for (const item of (value || '').toString().split(/[,\n]/)) {
+    if (!item.trim()) continue;
+    const match = item
+      .trim()
+      .match(/^([\w.\-/@]+)\s*:\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/);
+    if (!match) {
+      throw new Error(
+        `Invalid price "${item.trim()}", expected "model: input/output" (USD per 1M tokens)`
+      );
+    }
+    prices[match[1]] = { input: Number(match[2]), output: Number(match[3]) };
+  }
+  return prices;
+}
+
+/**
+ * Find a price of a model (by the longest model name the model starts with,
+ * so that prices of e.g. gemini-1.5-pro apply to gemini-1.5-pro-002).
+ * @param {String} model
+ * @param {Object} prices
+ * @returns {ModelPrice|undefined}
+ */
+export function getModelPrice(
+  model: string,
+  prices: Record<string, ModelPrice>
+): ModelPrice | undefined {
+  let found: string | undefined;
+  for (const name of Object.keys(prices)) {
+    if (model.startsWith(name) && (!found || name.length > found.length)) {
+      found = name;
+    }
+  }
+  return found ? prices[found] : undefined;
+}
+
+/**
+ * Estimate a cost (USD) of tokens.
+ * @param {Number} promptTokens
+ * @param {Number} candidatesTokens
+ * @param [ModelPrice] price
+ * @returns {Number|undefined} undefined if the price is unknown
+ */
+export function estimateCost(
+  promptTokens: number,
+  candidatesTokens: number,
+  price?: ModelPrice
+) {
+  if (!price) return undefined;
+  return (promptTokens * price.input + candidatesTokens * price.output) / 1e6;
+}
+
+/**
+ * Aggregates usage of model calls of a run.
+ */
+export class UsageTracker {
+  records: UsageRecord[] = [];
+  /** ad group being processed (calls are attributed to it) */
+  adgroupId = '';
+
+  /**
+   * Account a model call.
+   * @param {String} stage
+   * @param {String} model
+   * @param [ModelUsage] usage - usage returned by the model API
+   */
+  add(stage: string, model: string, usage?: ModelUsage) {
+    let record = this.records.find(
+      r =>
+        r.adgroupId === this.adgroupId && r.stage === stage && r.model === model
+    );
+    if (!record) {
+      record = {
+        adgroupId: this.adgroupId,
+        stage,
+        model,
+        calls: 0,
+        cachedCalls: 0,
+        promptTokens: 0,
+        candidatesTokens: 0,
+        totalTokens: 0,
+      };
+      this.records.push(record);
+    }
+    record.calls += 1;
+    if (usage?.cached) {
+      record.cachedCalls += 1;
+      return;
+    }
+    record.promptTokens += usage?.promptTokens || 0;
+    record.candidatesTokens += usage?.candidatesTokens || 0;
+    record.totalTokens += usage?.totalTokens || 0;
+  }
+
+  /**
+   * Get usage of all calls by models.
+   * @returns {UsageRecord[]}
+   */
+  getTotals(): UsageRecord[] {
+    const totals: Record<string, UsageRecord> = {};
+    for (const record of this.records) {
+      const total = (totals[record.model] ??= {
+        adgroupId: 'TOTAL',
+        stage: '',
+        model: record.model,
+        calls: 0,
+        cachedCalls: 0,
+        promptTokens: 0,
+        candidatesTokens: 0,
+        totalTokens: 0,
+      });
+      total.calls += record.calls;
+      total.cachedCalls += record.cachedCalls;
+      total.promptTokens += record.promptTokens;
+      total.candidatesTokens += record.candidatesTokens;
+      total.totalTokens += record.totalTokens;
+    }
+    return Object.values(totals);
+  }
+}
+
+/**
+ * Append usage of a run to the Usage sheet (by ad groups and stages and
+ * totals by models).
+ * @param {UsageTracker} tracker
+ * @param {Object} prices - prices by models
+ */
+export function writeUsageSheet(
+  tracker: UsageTracker,
+  prices: Record<string, ModelPrice>
+) {
+  if (!tracker.records.length) return;
+  const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+  let sheet = spreadsheet.getSheetByName(Config.sheets.Usage);
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(Config.sheets.Usage);
+    sheet.getRange(1, 1, 1, USAGE_COLUMNS.length).setValues([USAGE_COLUMNS]);
+    sheet.setFrozenRows(1);
+  }
+  const run = new Date().toISOString();
+  const rows = [...tracker.records, ...tracker.getTotals()].map(record => {
+    const cost = estimateCost(
+      record.promptTokens,
+      record.candidatesTokens,
+      getModelPrice(record.model, prices)
+    );
+    return [
+      run,
+      record.adgroupId,
+      record.stage,
+      record.model,
+      record.calls,
+      record.cachedCalls,
+      record.promptTokens,
+      record.candidatesTokens,
+      record.totalTokens,
+      cost === undefined ? '' : cost,
+    ];
+  });
+  sheet
+    .getRange(sheet.getLastRow() + 1, 1, rows.length, USAGE_COLUMNS.length)
+    .setValues(rows);
+}
@@ -23,13 +23,23 @@ import {
   IConfigReader,
 } from './config';
 import { fetchJson } from './interop';
+import { ModelResponseCache, createResponseCache } from './llm-cache';
+import { IModelApi, ModelUsage, PredictOptions } from './model-api';
+import { JsonSchema } from './schema';
 
-export class GeminiVertexApi {
+export class GeminiVertexApi implements IModelApi {
   projectId: string;
   configReader: IConfigReader;
   url: string;
+  countTokensUrl: string;
+  /** GCP region of the Vertex AI endpoint */
+  location: string;
+  modelName: string;
+  lastUsage: ModelUsage | undefined;
+  cache: ModelResponseCache;
   modelParams: any;
   logging: boolean;
+  structuredOutput: boolean;
   safetySettings: { category: SafetyCategory; threshold: BlockingThreshold }[];
 
   constructor(projectId: string, configReader: IConfigReader) {
@@ -39,13 +49,18 @@ export class GeminiVertexApi {
       this.configReader.getValue(SETTINGS.CLOUD_PROJECT_REGION) ||
       Config.vertexAi.location ||
       'us-central1';
-    const modelName =
+    this.location = gcpRegion;
+    this.modelName =
       this.configReader.getValue(SETTINGS.LLM_Name) ||
       Config.vertexAi.modelName ||
-      'gemini-pro';
+      'gemini-1.5-pro';
     this.url =
       this.configReader.getValue(SETTINGS.LLM_Uri) ||
-      `https://${gcpRegion}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${gcpRegion}/publishers/google/models/${modelName}:streamGenerateContent`;
+      `https://${gcpRegion}-aiplatform.googleapis.com/v1/projects/${projectId}/locations/${gcpRegion}/publishers/google/models/${this.modelName}:streamGenerateContent`;
+    // custom endpoints might not support counting tokens
+    this.countTokensUrl = /:(stream)?generateContent$/i.test(this.url)
+      ? this.url.replace(/:(stream)?generateContent$/i, ':countTokens')
+      : '';
 
     const safetySettings = Object.assign({}, Config.vertexAi.safetySettings);
     for (const category of Object.keys(Config.vertexAi.safetySettings)) {
@@ -78,30 +93,47 @@ export class GeminiVertexApi {
         modelParams[<keyType>category] = value;
       }
     }
-    this.modelParams = Object.assign(modelParams, {
-      candidateCount: 1,
-      //response_mime_type: 'application/json',
-    });
+    this.modelParams = modelParams;
+    this.structuredOutput =
+      this.configReader
+        .getValue(SETTINGS.LLM_Structured_Output)
+        .toString()
+        .toLocaleUpperCase() !== 'FALSE';
 
+    this.cache = createResponseCache(this.configReader);
     this.logging = false;
   }
 
   /**
    * @param {String} prompt
    * @param {Array} history
+   * @param {PredictOptions} options
+   */
+  predict(prompt: string, history?: any[], options?: PredictOptions) {
+    return this.predictCandidates(prompt, 1, history, options)[0];
+  }
+
+  /**
+   * Generate several replies (candidates) in one request.
+   * Only the first one is added to the history.
+   * @param {String} prompt
+   * @param {Number} count - number of candidates
+   * @param {Array} history
+   * @param {PredictOptions} options
+   * @returns {String[]}
    */
-  predict(prompt: string, history?: any[]) {
+  predictCandidates(
+    prompt: string,
+    count: number,
+    history?: any[],
+    options?: PredictOptions
+  ): string[] {
     history = history || [];
     history.push({
       role: 'user',
       parts: [{ text: prompt }],
     });
-    const data = {
-      contents: history.slice(0, history.length),
-      // see https://ai.google.dev/docs/safety_setting_gemini
-      safetySettings: this.safetySettings,
-      generationConfig: this.modelParams,
-    };
+    const data = this.createPayload(history, count, options);
     if (this.logging) {
       Logger.log(`GeminiApi: sending payload: ${JSON.stringify(data)}`);
     }
@@ -116,14 +148,26 @@ export class GeminiVertexApi {
       muteHttpExceptions: true,
     };
 
-    const res = fetchJson(this.url, request);
+    const res = this.cache.fetch(this.url, request, options?.cacheVariant);
+    this.lastUsage = undefined;
     if (res.length) {
       // streamGenerateContent returns an array of response that should be merged into one
-      let reply = '';
+      const replies: string[] = new Array(count).fill('');
       for (const resItem of res) {
-        const text = this._parseResponse(resItem, prompt);
-        if (text) {
-          reply += text;
+        const texts = this._parseResponse(resItem, prompt);
+        texts.forEach((text, index) => {
+          if (text) {
+            replies[index] = (replies[index] || '') + text;
+          }
+        });
+        // chunks contain usage so far, the last one has totals
+        if (resItem.usageMetadata) {
+          this.lastUsage = {
+            promptTokens: resItem.usageMetadata.promptTokenCount || 0,
+            candidatesTokens: resItem.usageMetadata.candidatesTokenCount || 0,
+            totalTokens: resItem.usageMetadata.totalTokenCount || 0,
+            cached: this.cache.lastCached,
+          };
         }
       }
       // TODO: we might want to retry the request if the last part of response has finishReason != STOP (e.g OTHER)
@@ -131,42 +175,119 @@ export class GeminiVertexApi {
         role: 'model',
         parts: [
           {
-            text: reply,
+            text: replies[0],
           },
         ],
       });
       if (this.logging) {
-        Logger.log(`GeminiApi: parsed response: ${reply}`);
+        Logger.log(`GeminiApi: parsed response: ${replies.join('\n---\n')}`);
       }
-      return reply;
+      return replies;
     } else {
       throw new Error(`Uknown response from the API: ${JSON.stringify(res)}`);
     }
   }
 
-  _parseResponse(res: any, prompt: string) {
+  /**
+   * Create a generateContent request's payload.
+   * @param {Array} contents - chat messages (the last one is the prompt)
+   * @param {Number} count - number of candidates
+   * @param {PredictOptions} options
+   */
+  createPayload(contents: any[], count: number, options?: PredictOptions) {
+    const generationConfig = Object.assign({}, this.modelParams, {
+      candidateCount: count,
+    });
+    if (options?.responseSchema && this.structuredOutput) {
+      // see https://cloud.google.com/vertex-ai/generative-ai/docs/multimodal/control-generated-output
+      generationConfig.responseMimeType = 'application/json';
+      generationConfig.responseSchema = this._toVertexSchema(
+        options.responseSchema
+      );
+    }
+    return {
+      contents: contents.slice(0, contents.length),
+      // see https://ai.google.dev/docs/safety_setting_gemini
+      safetySettings: this.safetySettings,
+      generationConfig: generationConfig,
+    };
+  }
+
+  /**
+   * Count tokens of a prompt via the countTokens endpoint.
+   * @param {String} prompt
+   * @returns {Number|undefined} undefined if the request failed
+   */
+  countTokens(prompt: string): number | undefined {
+    if (!this.countTokensUrl) return undefined;
+    const request = {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'authorization': `Bearer ${ScriptApp.getOAuthToken()}`,
+      },
+      payload: {
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      },
+      muteHttpExceptions: true,
+    };
+    try {
+      const res = fetchJson(this.countTokensUrl, request);
+      return res.totalTokens;
+    } catch (e) {
+      Logger.log(`WARNING: failed to count tokens: ${e}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Convert a schema into Vertex AI format (types are in upper case).
+   * @param {JsonSchema} schema
+   */
+  _toVertexSchema(schema: JsonSchema): any {
+    const res: any = Object.assign({}, schema, {
+      type: schema.type.toUpperCase(),
+    });
+    if (schema.items) {
+      res.items = this._toVertexSchema(schema.items);
+    }
+    if (schema.properties) {
+      res.properties = {};
+      for (const [name, propSchema] of Object.entries(schema.properties)) {
+        res.properties[name] = this._toVertexSchema(propSchema);
+      }
+    }
+    return res;
+  }
+
+  /**
+   * Parse a chunk of a response.
+   * @param res - a chunk of streamGenerateContent response
+   * @param {String} prompt
+   * @returns {String[]} texts of candidates (by their indexes)
+   */
+  _parseResponse(res: any, prompt: string): string[] {
     if (res.promptFeedback && res.promptFeedback.blockReason) {
       throw new Error(
         `Request was blocked as it triggered API safety filters. Reason: ${res.promptFeedback.blockReason}.\n Original prompt: ${prompt}`
       );
     }
-    if (res.candidates) {
-      if (res.candidates[0].content) {
-        const result = res.candidates[0].content;
-        if (!result.parts || !result.parts.length) {
-          return '';
-        }
-        return result.parts[0].text || '';
+    const texts: string[] = [];
+    for (const [i, candidate] of (res.candidates || []).entries()) {
+      const index = candidate.index ?? i;
+      if (candidate.content) {
+        const result = candidate.content;
+        texts[index] = result.parts?.[0]?.text || '';
       } else {
-        // TODO: analyze res.candidates[0].finishReason;
+        // TODO: analyze candidate.finishReason;
         Logger.log(
           `Received empty response from API. Prompt: ${prompt}. Full response: ${JSON.stringify(
             res
           )}`
         );
-        return '';
+        texts[index] = '';
       }
     }
-    return '';
+    return texts;
   }
 }
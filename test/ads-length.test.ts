@@ -0,0 +1,70 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+  getAdsTextLength,
+  getModelLengthLimit,
+  splitGraphemes,
+} from '../src/ads-length';
+
+describe('ads length', () => {
+  it('latin characters count as 1', () => {
+    expect(getAdsTextLength('Buy Running Shoes')).toEqual(17);
+  });
+
+  it('double-width characters count as 2', () => {
+    expect(getAdsTextLength('ランニングシューズ')).toEqual(18);
+    expect(getAdsTextLength('跑鞋')).toEqual(4);
+    expect(getAdsTextLength('운동화')).toEqual(6);
+    expect(getAdsTextLength('ＡＢＣ')).toEqual(6);
+    // half-width katakana (the voiced sound mark is combined with 'ｽ')
+    expect(getAdsTextLength('ｼｭｰｽﾞ')).toEqual(4);
+  });
+
+  it('combining marks and emoji are counted as graphemes', () => {
+    // e + combining acute accent
+    expect(getAdsTextLength('café')).toEqual(4);
+    // family emoji (ZWJ sequence)
+    expect(getAdsTextLength('\u{1F468}\u200D\u{1F469}\u200D\u{1F467}')).toEqual(
+      2
+    );
+    // thumbs up with skin tone modifier
+    expect(getAdsTextLength('\u{1F44D}\u{1F3FD}')).toEqual(2);
+  });
+
+  it('graphemes are split without Intl.Segmenter', () => {
+    const Segmenter = (<any>Intl).Segmenter;
+    (<any>Intl).Segmenter = undefined;
+    try {
+      expect(splitGraphemes('café \u{1F44D}\u{1F3FD}')).toEqual([
+        'c',
+        'a',
+        'f',
+        'é',
+        ' ',
+        '\u{1F44D}\u{1F3FD}',
+      ]);
+    } finally {
+      (<any>Intl).Segmenter = Segmenter;
+    }
+  });
+
+  it('limits for model are halved for double-width languages', () => {
+    expect(getModelLengthLimit(30, 'running shoes')).toEqual(30);
+    expect(getModelLengthLimit(30, 'ランニングシューズ\n靴')).toEqual(15);
+    expect(getModelLengthLimit(30, '')).toEqual(30);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+  BatchJob,
+  BatchJobState,
+  BatchRequest,
+  BatchResult,
+  IBatchEndpoint,
+  clearBatchGeneration,
+  createBatchGeneration,
+  formatBatchGeneration,
+  loadBatchGeneration,
+  parseBatchOutput,
+  parseStorageUri,
+  pollBatchJob,
+  saveBatchGeneration,
+  serializeBatchRequests,
+} from '../src/batch';
+import { Predictor } from '../src/app';
+import { GeminiVertexApi } from '../src/vertex-api';
+import { ConfigMockReader } from './mocks';
+
+// Mocking global objects in Apps Script environment:
+global.Logger = <any>{
+  log(format: string, ...values: any[]) {
+    console.log(format, values);
+    return this;
+  },
+};
+const properties: Record<string, string> = {};
+global.PropertiesService = <any>{
+  getDocumentProperties() {
+    return {
+      getProperty: (name: string) => properties[name] || null,
+      setProperty: (name: string, value: string) => {
+        properties[name] = value;
+      },
+      deleteProperty: (name: string) => {
+        delete properties[name];
+      },
+    };
+  },
+};
+global.Utilities = <any>{ getUuid: () => 'run1' };
+
+/**
+ * A local endpoint: jobs are completed after a number of status checks,
+ * the model's replies are taken from a function of prompts.
+ */
+class BatchMockEndpoint implements IBatchEndpoint {
+  modelName = 'mock-model';
+  input = '';
+  checks = 0;
+  reply: (prompt: string) => string;
+  checksToComplete: number;
+
+  constructor(reply: (prompt: string) => string, checksToComplete = 1) {
+    this.reply = reply;
+    this.checksToComplete = checksToComplete;
+  }
+  submit(displayName: string, requests: BatchRequest[]): BatchJob {
+    this.input = serializeBatchRequests(requests, request => ({
+      contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+    }));
+    return { name: displayName, state: BatchJobState.Pending };
+  }
+  getJob(name: string): BatchJob {
+    this.checks += 1;
+    return {
+      name,
+      state:
+        this.checks >= this.checksToComplete
+          ? BatchJobState.Succeeded
+          : BatchJobState.Running,
+    };
+  }
+  getResults(): BatchResult[] {
+    const output = this.input
+      .split('\n')
+      .map(line => {
+        const request = JSON.parse(line).request;
+        const text = this.reply(request.contents[0].parts[0].text);
+        return JSON.stringify({
+          status: '',
+          request,
+          response: {
+            candidates: [{ content: { role: 'model', parts: [{ text }] } }],
+            usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5 },
+          },
+        });
+      })
+      .join('\n');
+    return parseBatchOutput(output);
+  }
+  cancel() {}
+}
+
+describe('batch', () => {
+  it('requests are serialized with keys in labels', () => {
+    const api = new GeminiVertexApi('project', new ConfigMockReader());
+    const jsonl = serializeBatchRequests(
+      [
+        {
+          key: '2-headlines',
+          prompt: 'prompt 1',
+          responseSchema: Predictor.RESPONSE_SCHEMAS.headlines,
+        },
+        { key: '3-headlines', prompt: 'prompt 2' },
+      ],
+      request =>
+        api.createPayload(
+          [{ role: 'user', parts: [{ text: request.prompt }] }],
+          1,
+          { responseSchema: request.responseSchema }
+        )
+    );
+    const lines = jsonl.split('\n').map(line => JSON.parse(line));
+    expect(lines.length).toEqual(2);
+    expect(lines[0].request.labels).toEqual({ key: '2-headlines' });
+    expect(lines[0].request.contents[0].parts[0].text).toEqual('prompt 1');
+    expect(lines[0].request.generationConfig.responseSchema.type).toEqual(
+      'ARRAY'
+    );
+    expect(lines[1].request.generationConfig.responseSchema).toBeUndefined();
+  });
+
+  it("request's own payload is used instead of the endpoint's one", () => {
+    const jsonl = serializeBatchRequests(
+      [
+        {
+          key: '123-headlines',
+          prompt: 'prompt',
+          payload: { contents: [], generationConfig: { temperature: 0.1 } },
+        },
+      ],
+      () => ({ contents: [], generationConfig: { temperature: 1 } })
+    );
+    expect(JSON.parse(jsonl).request).toEqual({
+      contents: [],
+      generationConfig: { temperature: 0.1 },
+      labels: { key: '123-headlines' },
+    });
+  });
+
+  it('output with failed and blocked requests is parsed', () => {
+    const output = [
+      JSON.stringify({
+        status: '',
+        request: { labels: { key: '2-headlines' } },
+        response: {
+          candidates: [
+            { content: { parts: [{ text: '["H1", ' }, { text: '"H2"]' }] } },
+          ],
+          usageMetadata: {
+            promptTokenCount: 100,
+            candidatesTokenCount: 20,
+            totalTokenCount: 120,
+          },
+        },
+      }),
+      JSON.stringify({
+        status: 'Quota exceeded',
+        request: { labels: { key: '3-headlines' } },
+      }),
+      JSON.stringify({
+        status: '',
+        request: { labels: { key: '4-headlines' } },
+        response: { promptFeedback: { blockReason: 'SAFETY' } },
+      }),
+      'not a json',
+      JSON.stringify({ status: '', request: {} }),
+    ].join('\n');
+    const results = parseBatchOutput(output);
+    expect(results).toEqual([
+      {
+        key: '2-headlines',
+        reply: '["H1", "H2"]',
+        usage: { promptTokens: 100, candidatesTokens: 20, totalTokens: 120 },
+      },
+      { key: '3-headlines', error: 'Quota exceeded' },
+      {
+        key: '4-headlines',
+        error: 'blocked by safety filters (SAFETY)',
+      },
+    ]);
+  });
+
+  it('job is polled until it succeeds and replies are parsed as usual', () => {
+    const endpoint = new BatchMockEndpoint(
+      prompt =>
+        prompt === 'headlines'
+          ? '["Buy Shoes Online", "Buy Shoes Online"]'
+          : '1. Shoes\n2. Sale',
+      2
+    );
+    const job = endpoint.submit('job1', [
+      { key: '2-headlines', prompt: 'headlines' },
+      { key: '2-paths', prompt: 'paths' },
+    ]);
+    let res = pollBatchJob(endpoint, job.name);
+    expect(res.job.state).toEqual(BatchJobState.Running);
+    expect(res.results).toBeUndefined();
+    res = pollBatchJob(endpoint, job.name);
+    expect(res.job.state).toEqual(BatchJobState.Succeeded);
+    expect(Object.keys(res.results!)).toEqual(['2-headlines', '2-paths']);
+
+    const predictor = new Predictor(
+      new GeminiVertexApi('', new ConfigMockReader()),
+      ''
+    );
+    expect(
+      predictor.parseTexts(res.results!['2-headlines'].reply!, 'headlines')
+    ).toEqual(['Buy Shoes Online', 'Buy Shoes Online']);
+    expect(predictor.status).toEqual([]);
+    // a reply not matching the schema falls back to text
+    expect(
+      predictor.parseTexts(res.results!['2-paths'].reply!, 'paths')
+    ).toEqual(['Shoes', 'Sale']);
+    expect(predictor.status.length).toEqual(1);
+  });
+
+  it('storage uri is parsed', () => {
+    expect(parseStorageUri('gs://bucket/rsa/batch/')).toEqual({
+      bucket: 'bucket',
+      path: 'rsa/batch',
+    });
+    expect(parseStorageUri('gs://bucket')).toEqual({
+      bucket: 'bucket',
+      path: '',
+    });
+    expect(() => parseStorageUri('bucket/rsa')).toThrow();
+  });
+
+  it('generation state is saved and cleared', () => {
+    const run = createBatchGeneration('keywords');
+    run.job = { name: 'jobs/1', state: BatchJobState.Running };
+    saveBatchGeneration(run);
+    const loaded = loadBatchGeneration()!;
+    expect(loaded.runId).toEqual('run1');
+    expect(loaded.phase).toEqual('headlines');
+    expect(loaded.job.name).toEqual('jobs/1');
+    clearBatchGeneration();
+    expect(loadBatchGeneration()).toBeUndefined();
+  });
+
+  it('failed generation shows its last error', () => {
+    const run = createBatchGeneration('keywords');
+    expect(formatBatchGeneration(run)).not.toContain('Last error');
+    run.failed = true;
+    run.error = 'job is failed: quota exceeded';
+    const text = formatBatchGeneration(run);
+    expect(text).toContain('(failed)');
+    expect(text).toContain('Last error: job is failed: quota exceeded');
+  });
+});
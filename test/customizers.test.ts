@@ -0,0 +1,103 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  CustomizerType,
+  parseCustomizerAttributes,
+  validateCustomizerValue,
+} from '../src/customizers';
+
+describe('parseCustomizerAttributes', () => {
+  it('parses attributes with defaults', () => {
+    const res = parseCustomizerAttributes([
+      ['Benefit', '', '', ''],
+      ['', '', '', ''],
+      ['PriceFrom', 'price', 'Prices for {KEYWORDS}', '12'],
+    ]);
+    expect(res).toEqual([
+      { name: 'Benefit', type: CustomizerType.Text, prompt: '', maxLength: 30 },
+      {
+        name: 'PriceFrom',
+        type: CustomizerType.Price,
+        prompt: 'Prices for {KEYWORDS}',
+        maxLength: 12,
+      },
+    ]);
+  });
+
+  it('throws on invalid attributes', () => {
+    expect(() => parseCustomizerAttributes([['A', 'Date', 'p', '']])).toThrow(
+      /Unknown customizer type "Date" in row 2/
+    );
+    expect(() => parseCustomizerAttributes([['A', 'Number', '', '']])).toThrow(
+      /Missing prompt/
+    );
+    expect(() =>
+      parseCustomizerAttributes([['A', 'Text', '{UNKNOWN}', '']])
+    ).toThrow(/Invalid prompt/);
+    expect(() =>
+      parseCustomizerAttributes([
+        ['A', '', '', ''],
+        ['A', '', '', ''],
+      ])
+    ).toThrow(/Duplicate attribute "A" in row 3/);
+  });
+});
+
+describe('validateCustomizerValue', () => {
+  const attr = (type: CustomizerType, maxLength = 30) => ({
+    name: 'A',
+    type,
+    prompt: '',
+    maxLength,
+  });
+
+  it('checks formats of types', () => {
+    expect(validateCustomizerValue('Any Text', attr(CustomizerType.Text))).toBe(
+      undefined
+    );
+    for (const value of ['42', '-1.5', '1,000']) {
+      expect(validateCustomizerValue(value, attr(CustomizerType.Number))).toBe(
+        undefined
+      );
+    }
+    for (const value of ['$19.99', '19.99 USD', 'EUR 5', '5€']) {
+      expect(validateCustomizerValue(value, attr(CustomizerType.Price))).toBe(
+        undefined
+      );
+    }
+    expect(validateCustomizerValue('20%', attr(CustomizerType.Percent))).toBe(
+      undefined
+    );
+    expect(validateCustomizerValue('forty', attr(CustomizerType.Number))).toBe(
+      'not a valid number'
+    );
+    expect(validateCustomizerValue('19.99', attr(CustomizerType.Price))).toBe(
+      'not a valid price'
+    );
+    expect(validateCustomizerValue('20', attr(CustomizerType.Percent))).toBe(
+      'not a valid percent'
+    );
+  });
+
+  it('checks length and empty values', () => {
+    expect(validateCustomizerValue('', attr(CustomizerType.Text))).toBe(
+      'empty value'
+    );
+    expect(
+      validateCustomizerValue('Too long value', attr(CustomizerType.Text, 5))
+    ).toBe('longer than 5 (14)');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+  clearGenerationRun,
+  createGenerationRun,
+  deleteContinuations,
+  formatGenerationRun,
+  loadGenerationRun,
+  saveGenerationRun,
+  scheduleContinuation,
+} from '../src/generation-run';
+
+// Mocking global objects in Apps Script environment:
+const properties: Record<string, string> = {};
+global.PropertiesService = <any>{
+  getDocumentProperties() {
+    return {
+      getProperty: (name: string) => properties[name] || null,
+      setProperty: (name: string, value: string) => {
+        properties[name] = value;
+      },
+      deleteProperty: (name: string) => {
+        delete properties[name];
+      },
+    };
+  },
+};
+global.Utilities = <any>{ getUuid: () => 'run1' };
+let triggers: any[] = [];
+const triggerBuilder = (handler: string) => ({
+  timeBased: () => ({
+    after: (ms: number) => ({
+      create: () => {
+        const trigger = { getHandlerFunction: () => handler, after: ms };
+        triggers.push(trigger);
+        return trigger;
+      },
+    }),
+  }),
+});
+global.ScriptApp = <any>{
+  newTrigger: triggerBuilder,
+  getProjectTriggers: () => triggers,
+  deleteTrigger: (trigger: any) => {
+    triggers = triggers.filter(t => t !== trigger);
+  },
+};
+
+describe('generation run', () => {
+  it('run state is saved and cleared', () => {
+    const run = createGenerationRun('keywords', 2, 100);
+    expect(run.lastRow).toEqual(1);
+    run.lastRow = 42;
+    saveGenerationRun(run);
+    expect(loadGenerationRun()).toEqual(run);
+    clearGenerationRun();
+    expect(loadGenerationRun()).toBeUndefined();
+  });
+
+  it('failed run shows its last error', () => {
+    const run = createGenerationRun('keywords', 2, 100);
+    expect(formatGenerationRun(run)).not.toContain('Last error');
+    run.status = 'failed';
+    run.error = 'Error: quota exceeded';
+    const text = formatGenerationRun(run);
+    expect(text).toContain('(failed)');
+    expect(text).toContain('Last error: Error: quota exceeded');
+  });
+
+  it('failed rows are shown separately from processed ones', () => {
+    const run = createGenerationRun('keywords', 2, 100);
+    expect(formatGenerationRun(run)).not.toContain('Failed rows');
+    run.processed = 8;
+    run.failedRows = 2;
+    const text = formatGenerationRun(run);
+    expect(text).toContain('Processed rows: 8');
+    expect(text).toContain('Failed rows: 2');
+  });
+
+  it('only one continuation trigger is scheduled', () => {
+    scheduleContinuation('generate_rsa_continue');
+    scheduleContinuation('generate_rsa_continue');
+    expect(triggers.length).toEqual(1);
+    deleteContinuations('generate_rsa_continue');
+    expect(triggers.length).toEqual(0);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createAdGroupAdOperation, getAllKeywords } from '../src/app';
+import { GoogleAdsClient } from '../src/google-ads';
+import { ConfigMockReader } from './mocks';
+
+// Mocking global objects in Apps Script environment:
+const Logger: GoogleAppsScript.Base.Logger = {
+  clear() {},
+  getLog() {
+    return 'test';
+  },
+  log(format: string, ...values: any[]) {
+    console.log(format, values);
+    return this;
+  },
+};
+global.Logger = Logger;
+global.ScriptApp = <any>{
+  getOAuthToken() {
+    return 'token';
+  },
+};
+
+describe('mutate', () => {
+  afterEach(() => {
+    (<any>GoogleAdsClient).execHook = undefined;
+  });
+
+  it('per operation errors are returned by operation index', () => {
+    const requests: any[] = [];
+    // fake endpoint
+    GoogleAdsClient.execHook = (url, request) => {
+      requests.push({ url, payload: request.payload });
+      return JSON.stringify({
+        results: [{}, {}],
+        partialFailureError: {
+          code: 3,
+          message: 'Multiple errors in details',
+          details: [
+            {
+              errors: [
+                {
+                  message: 'Too long.',
+                  location: {
+                    fieldPathElements: [
+                      { fieldName: 'operations', index: 1 },
+                      { fieldName: 'create' },
+                    ],
+                  },
+                },
+                { message: 'Quota exceeded.' },
+              ],
+            },
+          ],
+        },
+      });
+    };
+    const client = new GoogleAdsClient(
+      { apiVersion: 'v16' },
+      new ConfigMockReader()
+    );
+    const res = client.mutate('adGroupAds', [{}, {}], '123', {
+      validateOnly: true,
+    });
+
+    expect(requests[0].url).toEqual(
+      'https://googleads.googleapis.com/v16/customers/123/adGroupAds:mutate'
+    );
+    expect(requests[0].payload.validateOnly).toBe(true);
+    expect(requests[0].payload.partialFailure).toBe(true);
+    expect(res.errors).toEqual({ 1: ['Too long.'] });
+    // errors without a location aren't attributed to any operation
+    expect(res.batchErrors).toEqual(['Quota exceeded.']);
+  });
+
+  it('operation is created from an import sheet row', () => {
+    const columns = [
+      'Customer ID',
+      'Ad group ID',
+      'Final URL',
+      'Path 1',
+      'Path 2',
+      'Headline 1',
+      'Headline 1 position',
+      'Headline 2',
+      'Headline 2 position',
+      'Description 1',
+      'Description 1 position',
+    ];
+    const row = [
+      '123',
+      '456',
+      'https://example.com',
+      'shoes',
+      '',
+      'Headline one',
+      '1',
+      'Headline two',
+      '',
+      'Description one',
+      '',
+    ];
+    const op = createAdGroupAdOperation(
+      row,
+      columns,
+      'customers/123/adGroups/456',
+      'PAUSED'
+    );
+    expect(op).toEqual({
+      create: {
+        adGroup: 'customers/123/adGroups/456',
+        status: 'PAUSED',
+        ad: {
+          finalUrls: ['https://example.com'],
+          responsiveSearchAd: {
+            headlines: [
+              { text: 'Headline one', pinnedField: 'HEADLINE_1' },
+              { text: 'Headline two' },
+            ],
+            descriptions: [{ text: 'Description one' }],
+            path1: 'shoes',
+          },
+        },
+      },
+    });
+  });
+});
+
+describe('keywords selection', () => {
+  const adgroupRow = (id: number, keyword: string) => ({
+    customer: { id: 1, descriptiveName: 'Customer' },
+    campaign: { id: 10, name: 'Campaign' },
+    adGroup: { id, name: `AdGroup ${id}` },
+    adGroupCriterion: { keyword: { text: keyword } },
+  });
+  const queries: string[] = [];
+  // fake client returning rows depending on a queried resource
+  const client = <any>{
+    execQuery(query: string) {
+      queries.push(query);
+      if (query.includes('FROM keyword_view')) {
+        return [adgroupRow(100, 'running shoes'), adgroupRow(100, 'sneakers')];
+      }
+      if (query.includes('FROM ad_group_criterion')) {
+        return [adgroupRow(100, 'trainers'), adgroupRow(200, 'new shoes')];
+      }
+      if (query.includes('FROM campaign_criterion')) {
+        return [
+          {
+            campaign: { id: 10 },
+            campaignCriterion: {
+              language: { languageConstant: 'languageConstants/1001' },
+            },
+          },
+        ];
+      }
+      if (query.includes('FROM language_constant')) {
+        return [
+          {
+            languageConstant: {
+              resourceName: 'languageConstants/1001',
+              name: 'German',
+            },
+          },
+        ];
+      }
+      if (query.includes('FROM search_term_view')) {
+        return [
+          { adGroup: { id: 100 }, searchTermView: { searchTerm: 'Sneakers' } },
+          {
+            adGroup: { id: 100 },
+            searchTermView: { searchTerm: 'shoes sale' },
+          },
+        ];
+      }
+      return [];
+    },
+  };
+
+  it('search terms and adgroups without metrics are merged', () => {
+    const res = getAllKeywords(client, '1', undefined, {
+      metric: 'conversions',
+      lookbackDays: 30,
+      matchTypes: ['EXACT', 'PHRASE'],
+      statuses: ['ENABLED', 'PAUSED'],
+      searchTermsCount: 5,
+      includeAdGroupsWithoutMetrics: true,
+    });
+    expect(res.map(adgroup => adgroup.keywords_array)).toEqual([
+      ['running shoes', 'sneakers', 'shoes sale'],
+      ['new shoes'],
+    ]);
+    expect(res.map(adgroup => adgroup.language)).toEqual(['German', 'German']);
+    const queryKw = queries.find(query => query.includes('FROM keyword_view'));
+    expect(queryKw).toContain('metrics.conversions > 0');
+    expect(queryKw).toContain('segments.date BETWEEN');
+    expect(queryKw).toContain(
+      'ad_group_criterion.keyword.match_type IN (EXACT, PHRASE)'
+    );
+    expect(queryKw).toContain('ad_group_criterion.status IN (ENABLED, PAUSED)');
+  });
+});
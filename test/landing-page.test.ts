@@ -0,0 +1,52 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { extractLandingPage, formatLandingPage } from '../src/landing-page';
+
+describe('landing page', () => {
+  const html = `<html><head>
+<title>Running Shoes &amp; Sneakers | Acme</title>
+<meta content="Free delivery on all orders" name="description">
+<script>var x = "<h1>not a heading</h1>";</script>
+</head>
+<body>
+<nav><a href="/">Home</a></nav>
+<main>
+  <h1>Running <b>Shoes</b></h1>
+  <p>Lightweight shoes for   road running.</p>
+  <h2>20% off this week</h2>
+</main>
+<footer>Copyright</footer>
+</body></html>`;
+
+  it('title, description, headings and main text are extracted', () => {
+    const page = extractLandingPage(html);
+    expect(page).toEqual({
+      title: 'Running Shoes & Sneakers | Acme',
+      description: 'Free delivery on all orders',
+      headings: ['Running Shoes', '20% off this week'],
+      text: 'Running Shoes Lightweight shoes for road running. 20% off this week',
+    });
+  });
+
+  it('main text is truncated first', () => {
+    const page = extractLandingPage(html);
+    const res = formatLandingPage(page, 150);
+    expect(res.length).toBeLessThanOrEqual(150);
+    expect(res).toContain('Title: Running Shoes & Sneakers | Acme');
+    expect(res).toContain('- 20% off this week');
+    expect(res).toContain('Text: Running');
+  });
+});
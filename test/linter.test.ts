@@ -0,0 +1,58 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { lintAdText, lintAdTexts, parseTrademarks } from '../src/linter';
+
+describe('linter', () => {
+  it('clean texts have no issues', () => {
+    expect(lintAdText('Buy Running Shoes Online')).toEqual([]);
+    expect(lintAdText('Free Delivery in the USA. Save 20% Today')).toEqual([]);
+    expect(lintAdText('Acme® Shoes, Since 1990')).toEqual([]);
+  });
+
+  it('editorial issues are flagged', () => {
+    expect(lintAdText('FREE Shipping')).toEqual(['all caps (FREE)']);
+    expect(lintAdText('Best Shoes!!')).toEqual(['repeated punctuation (!!)']);
+    expect(lintAdText('Best Shoes ★★★')).toEqual(['gimmicky symbols (★★★)']);
+    expect(lintAdText('Call 555-123-4567 Now')).toEqual([
+      'phone number (555-123-4567)',
+    ]);
+    expect(lintAdText('- Best Shoes')).toEqual(['leading punctuation (-)']);
+    expect(lintAdText('Best  Shoes')).toEqual([
+      'non-standard spacing (multiple spaces)',
+    ]);
+    expect(lintAdText('Best Shoes , Today')).toEqual([
+      'non-standard spacing (space before punctuation)',
+    ]);
+    expect(lintAdText('F R E E Shoes')).toEqual([
+      'non-standard spacing (F R E E)',
+    ]);
+  });
+
+  it('trademarks are flagged', () => {
+    const trademarks = parseTrademarks('Nike, Air Max\nAdidas');
+    expect(trademarks).toEqual(['Nike', 'Air Max', 'Adidas']);
+    expect(lintAdText('Shoes Like air max', trademarks)).toEqual([
+      'trademark (Air Max)',
+    ]);
+    expect(lintAdText('Nikesh Shoes', trademarks)).toEqual([]);
+  });
+
+  it('issues are formatted per text', () => {
+    expect(lintAdTexts(['Good Shoes', 'BEST Shoes!!'])).toEqual([
+      '"BEST Shoes!!": all caps (BEST); repeated punctuation (!!)',
+    ]);
+  });
+});
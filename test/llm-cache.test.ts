@@ -0,0 +1,160 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createHash } from 'crypto';
+import { Predictor } from '../src/app';
+import {
+  ModelResponseCache,
+  ModelTrafficRecorder,
+  ResponseStore,
+  setTrafficRecorder,
+} from '../src/llm-cache';
+import { GeminiVertexApi } from '../src/vertex-api';
+import { ConfigMockReader } from './mocks';
+import fixture from './fixtures/llm-traffic.json';
+
+// Mocking global objects in Apps Script environment:
+global.Logger = <any>{ log: () => {} };
+global.ScriptApp = <any>{ getOAuthToken: () => 'token' };
+global.Utilities = <any>{
+  DigestAlgorithm: { MD5: 'md5' },
+  Charset: { UTF_8: 'utf8' },
+  computeDigest: (algorithm: string, text: string) =>
+    Array.from(createHash(algorithm).update(text).digest()).map(b =>
+      b > 127 ? b - 256 : b
+    ),
+};
+let requests: string[] = [];
+global.UrlFetchApp = <any>{
+  fetch(url: string, params: any) {
+    requests.push(params.payload);
+    return {
+      getResponseCode: () => 200,
+      getContentText: () => JSON.stringify({ reply: requests.length }),
+    };
+  },
+};
+
+class MemoryStore implements ResponseStore {
+  values: Record<string, string> = {};
+  get(key: string) {
+    return this.values[key];
+  }
+  put(key: string, value: string) {
+    this.values[key] = value;
+  }
+}
+
+describe('llm cache', () => {
+  beforeEach(() => {
+    requests = [];
+    setTrafficRecorder(undefined);
+  });
+
+  it('identical requests are sent once', () => {
+    const cache = new ModelResponseCache([new MemoryStore()]);
+    const request = { method: 'POST', payload: { contents: ['prompt'] } };
+    expect(cache.fetch('https://model', request)).toEqual({ reply: 1 });
+    expect(cache.fetch('https://model', request)).toEqual({ reply: 1 });
+    expect(
+      cache.fetch('https://model', { ...request, payload: { contents: [] } })
+    ).toEqual({ reply: 2 });
+    expect(cache.fetch('https://other-model', request)).toEqual({ reply: 3 });
+    expect(requests.length).toEqual(3);
+  });
+
+  it('responses from slower stores are put into faster ones', () => {
+    const fast = new MemoryStore();
+    const slow = new MemoryStore();
+    const request = { payload: { contents: ['prompt'] } };
+    new ModelResponseCache([slow]).fetch('https://model', request);
+    const res = new ModelResponseCache([fast, slow]).fetch(
+      'https://model',
+      request
+    );
+    expect(res).toEqual({ reply: 1 });
+    expect(Object.values(fast.values)).toEqual([JSON.stringify(res)]);
+  });
+
+  it('traffic is recorded', () => {
+    const recorder = new ModelTrafficRecorder('record');
+    setTrafficRecorder(recorder);
+    new ModelResponseCache([]).fetch('https://model', { payload: { a: 1 } });
+    expect(recorder.entries).toEqual([
+      {
+        key: expect.stringMatching(/^llm_[0-9a-f]{32}$/),
+        url: 'https://model',
+        request: { a: 1 },
+        response: { reply: 1 },
+      },
+    ]);
+  });
+
+  it('candidate sets requested separately are cached separately', () => {
+    const fetch = global.UrlFetchApp.fetch;
+    global.UrlFetchApp = <any>{
+      fetch(url: string, params: any) {
+        requests.push(params.payload);
+        const text = JSON.stringify([`Set ${requests.length} description`]);
+        return {
+          getResponseCode: () => 200,
+          getContentText: () =>
+            JSON.stringify([
+              { candidates: [{ index: 0, content: { parts: [{ text }] } }] },
+            ]),
+        };
+      },
+    };
+    try {
+      const api = new GeminiVertexApi('project', new ConfigMockReader());
+      api.cache = new ModelResponseCache([new MemoryStore()]);
+      const predictor = new Predictor(api, '');
+      predictor.candidates = 2;
+      predictor.candidatesMethod = 'calls';
+      const adgroup = <any>{ keywords: 'shoes', all_headlines: [] };
+      const res = predictor.getDescriptions(adgroup).split('\n');
+      expect(res.sort()).toEqual(['Set 1 description', 'Set 2 description']);
+      expect(requests.length).toEqual(2);
+      // repeated generation takes both sets from the cache
+      predictor.getDescriptions(adgroup);
+      expect(requests.length).toEqual(2);
+    } finally {
+      global.UrlFetchApp = <any>{ fetch };
+    }
+  });
+
+  it('recorded generation is replayed offline', () => {
+    setTrafficRecorder(new ModelTrafficRecorder('replay', <any>fixture));
+    const api = new GeminiVertexApi('project', new ConfigMockReader());
+    const predictor = new Predictor(api, 'Acme');
+    const res = predictor.getDescriptions(<any>{
+      keywords: 'running shoes',
+      all_headlines: ['Running Shoes Sale'],
+      language: 'English',
+    });
+    expect(res).toEqual(
+      'Comfortable running shoes for every runner, shop now.\nFree delivery on all running shoes ordered today.'
+    );
+    expect(requests.length).toEqual(0);
+    // a different request is not in the recording
+    expect(() =>
+      predictor.getDescriptions(<any>{
+        keywords: 'trail shoes',
+        all_headlines: [],
+      })
+    ).toThrow(/There is no recorded response/);
+  });
+});
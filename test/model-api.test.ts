@@ -0,0 +1,136 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Predictor } from '../src/app';
+import { createModelApi } from '../src/model-api';
+import { OpenAiCompatibleApi } from '../src/openai-api';
+import { GeminiVertexApi } from '../src/vertex-api';
+import { ConfigMockReader } from './mocks';
+
+// Mocking global objects in Apps Script environment:
+const Logger: GoogleAppsScript.Base.Logger = {
+  clear() {},
+  getLog() {
+    return 'test';
+  },
+  log(format: string, ...values: any[]) {
+    console.log(format, values);
+    return this;
+  },
+};
+global.Logger = Logger;
+global.PropertiesService = <any>{
+  getDocumentProperties() {
+    return { getProperty: () => null };
+  },
+};
+const requests: any[] = [];
+let replyContent = '["headline1", "headline2"]';
+// a stub of a local chat completions server
+global.UrlFetchApp = <any>{
+  fetch(url: string, params: any) {
+    requests.push({ url, params });
+    const body = {
+      choices: [
+        {
+          message: { role: 'assistant', content: replyContent },
+          finish_reason: 'stop',
+        },
+      ],
+    };
+    return {
+      getResponseCode: () => 200,
+      getContentText: () => JSON.stringify(body),
+    };
+  },
+};
+
+describe('model providers', () => {
+  it('vertex is the default provider', () => {
+    const api = createModelApi('project', new ConfigMockReader());
+    expect(api).toBeInstanceOf(GeminiVertexApi);
+  });
+
+  it('unknown provider is rejected', () => {
+    const configReader = new ConfigMockReader();
+    configReader.setValue('LLM_Provider', 'foo');
+    expect(() => createModelApi('', configReader)).toThrow();
+  });
+
+  it('openai provider sends chat completions', () => {
+    const configReader = new ConfigMockReader();
+    configReader.setValue('LLM_Provider', 'openai');
+    configReader.setValue('LLM_Uri', 'http://localhost/v1/chat/completions');
+    configReader.setValue('LLM_Name', 'local-model');
+    configReader.setValue('LLM_API_KEY', 'key');
+    const api = createModelApi('', configReader);
+    expect(api).toBeInstanceOf(OpenAiCompatibleApi);
+
+    const predictor = new Predictor(api, 'customer');
+    const history: any[] = [];
+    const res = predictor._normalizeReply(api.predict('prompt', history));
+
+    expect(res).toEqual(['headline1', 'headline2']);
+    expect(requests[0].url).toEqual('http://localhost/v1/chat/completions');
+    expect(requests[0].params.headers.authorization).toEqual('Bearer key');
+    const payload = JSON.parse(requests[0].params.payload);
+    expect(payload.model).toEqual('local-model');
+    expect(payload.messages).toEqual([{ role: 'user', content: 'prompt' }]);
+    expect(history.length).toEqual(2);
+  });
+
+  it('openai provider sends strict object-rooted schemas', () => {
+    const configReader = new ConfigMockReader();
+    configReader.setValue('LLM_Provider', 'openai');
+    configReader.setValue('LLM_Uri', 'http://localhost/v1/chat/completions');
+    const api = createModelApi('', configReader);
+    requests.length = 0;
+    replyContent = '{"items": [{"keyword": "k", "value": "v"}]}';
+
+    const reply = api.predict('prompt', [], {
+      responseSchema: Predictor.RESPONSE_SCHEMAS.customizers,
+    });
+
+    expect(JSON.parse(reply)).toEqual([{ keyword: 'k', value: 'v' }]);
+    const payload = JSON.parse(requests[0].params.payload);
+    expect(payload.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: {
+        name: 'reply',
+        strict: true,
+        schema: {
+          type: 'object',
+          properties: {
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  keyword: { type: 'string' },
+                  value: { type: 'string' },
+                },
+                required: ['keyword', 'value'],
+                additionalProperties: false,
+              },
+            },
+          },
+          required: ['items'],
+          additionalProperties: false,
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  OverridesConfigReader,
+  parseConfigOverrides,
+  resolveConfigOverrides,
+} from '../src/overrides';
+import { ConfigMockReader } from './mocks';
+
+describe('overrides', () => {
+  const overrides = parseConfigOverrides([
+    ['customer', '123-456-7890', 'CUSTOMER_NAME', 'Brand'],
+    ['campaign', 111, 'LLM_Prompt_Headlines_Suffix', 'campaign suffix'],
+    ['Campaign', 111, 'CUSTOMER_NAME', 'Sub-brand'],
+    ['adgroup', 222, 'llm_prompt_headlines_suffix', 'adgroup suffix'],
+    ['', '', '', ''],
+  ]);
+
+  it('more specific levels win', () => {
+    expect(
+      resolveConfigOverrides(overrides, {
+        customer_id: '1234567890',
+        campaign_id: 111,
+        adgroup_id: 222,
+      })
+    ).toEqual({
+      customer_name: 'Sub-brand',
+      llm_prompt_headlines_suffix: 'adgroup suffix',
+    });
+    expect(
+      resolveConfigOverrides(overrides, {
+        customer_id: 1234567890,
+        campaign_id: 333,
+        adgroup_id: 444,
+      })
+    ).toEqual({ customer_name: 'Brand' });
+    expect(resolveConfigOverrides(overrides, { customer_id: 1 })).toEqual({});
+  });
+
+  it('reader falls back to the base configuration', () => {
+    const base = new ConfigMockReader();
+    base.setValue('LLM_Name', 'gemini');
+    base.setValue('CUSTOMER_NAME', 'Global');
+    const reader = new OverridesConfigReader(base, {
+      customer_name: 'Brand',
+    });
+    expect(reader.getValue('CUSTOMER_NAME')).toEqual('Brand');
+    expect(reader.getValue('LLM_Name')).toEqual('gemini');
+  });
+
+  it('unknown levels and settings are errors', () => {
+    expect(() =>
+      parseConfigOverrides([['account', 1, 'CUSTOMER_NAME', 'x']])
+    ).toThrow(/Unknown override level/);
+    expect(() =>
+      parseConfigOverrides([['customer', 1, 'NO_SUCH_SETTING', 'x']])
+    ).toThrow(/Unknown setting "NO_SUCH_SETTING" in row 2/);
+  });
+});
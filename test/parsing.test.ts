@@ -14,9 +14,34 @@
  * limitations under the License.
  */
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { Predictor } from '../src/app';
+import {
+  Predictor,
+  appendOutputText,
+  createAdsEditorRow,
+  removeRepeats,
+} from '../src/app';
 import { GeminiVertexApi } from '../src/vertex-api';
+import { IModelApi } from '../src/model-api';
+import { Config } from '../src/config';
 import { ConfigMockReader } from './mocks';
+import { estimateTokens } from '../src/tokens';
+
+class ModelMockApi implements IModelApi {
+  configReader = new ConfigMockReader();
+  countTokens?: (prompt: string) => number;
+  predictCandidates?: (prompt: string, count: number) => string[];
+  logging = false;
+  replies: string[];
+  prompts: string[] = [];
+
+  constructor(replies: string[]) {
+    this.replies = replies;
+  }
+  predict(prompt: string): string {
+    this.prompts.push(prompt);
+    return this.replies.shift() || '';
+  }
+}
 
 // Mocking global Logger object in Apps Script environment:
 const Logger: GoogleAppsScript.Base.Logger = {
@@ -50,4 +75,388 @@ describe('parsing', () => {
     const res = predictor._normalizeReply(resText);
     expect(res).toEqual(['headline1', 'headline2']);
   });
+
+  it('repeats of existing assets are removed', () => {
+    const res = removeRepeats(
+      ['Buy Shoes', 'buy shoes ', 'Running Shoes', 'Shoes Sale'],
+      ['SHOES SALE']
+    );
+    expect(res).toEqual(['Buy Shoes', 'Running Shoes']);
+  });
+
+  it('default prompts ask for length limits adjusted for wide characters', () => {
+    const predictor = new Predictor(new ModelMockApi([]), '');
+    const adGroup = <any>{
+      keywords: 'ランニングシューズ\n靴',
+      existing_headlines: [],
+      existing_descriptions: [],
+      all_headlines: [],
+    };
+    expect(predictor.getHeadlinesPrompt(adGroup)).toContain(
+      'headlines of 2 to 15 characters each'
+    );
+    expect(predictor.getDescriptionsPrompt(adGroup)).toContain(
+      'descriptions of 5 to 45 characters each'
+    );
+  });
+
+  it('display paths are normalized', () => {
+    const api = new ModelMockApi([]);
+    const predictor = new Predictor(api, '');
+    expect(predictor._normalizePath(' Running  Shoes/ ')).toEqual(
+      'Running-Shoes'
+    );
+    expect(predictor._normalizePath('/sale/')).toEqual('sale');
+  });
+
+  it('display paths longer than the limit are shortened', () => {
+    const api = new ModelMockApi([
+      '["Running Shoes", "comfortable/running shoes"]',
+      '["Comfy Shoes"]',
+    ]);
+    const predictor = new Predictor(api, '');
+    predictor.promptPathsShortenTemplate = 'Shorten to {MAX}: {PATHS}';
+    const res = predictor.getPaths(<any>{
+      adgroup_id: '1',
+      keywords: 'running shoes',
+    });
+    expect(res).toEqual(['Running-Shoes', 'Comfy-Shoes']);
+    expect(api.prompts.length).toEqual(2);
+    expect(api.prompts[1]).toContain('comfortablerunning-shoes');
+  });
+
+  it('display paths are carried into the Ads Editor export', () => {
+    const columns = [
+      'customer_id',
+      'customer_name',
+      'campaign_id',
+      'campaign_name',
+      'adgroup_id',
+      'adgroup_name',
+      'keywords',
+      'url',
+      'ignore',
+      'path1',
+      'path2',
+    ];
+    const row = [
+      '123',
+      'Customer',
+      '10',
+      'Campaign',
+      '456',
+      'AdGroup',
+      'running shoes',
+      'https://example.com',
+      '',
+      'Running-Shoes',
+      'Sale',
+    ];
+    expect(createAdsEditorRow(row, columns)).toEqual([
+      'Customer',
+      '123',
+      'Campaign',
+      'AdGroup',
+      '456',
+      'https://example.com',
+      'Running-Shoes',
+      'Sale',
+    ]);
+    expect(createAdsEditorRow(row.slice(0, 9), columns.slice(0, 9))).toEqual([
+      'Customer',
+      '123',
+      'Campaign',
+      'AdGroup',
+      '456',
+      'https://example.com',
+      '',
+      '',
+    ]);
+  });
+
+  it('reply not matching schema is requested again', () => {
+    const api = new ModelMockApi(['headline1\nheadline2', '["h1", "h2"]']);
+    const predictor = new Predictor(api, '');
+    const res = predictor._predictTexts('prompt', 'headlines');
+    expect(res).toEqual(['h1', 'h2']);
+    expect(api.prompts.length).toEqual(2);
+    expect(predictor.status).toEqual([]);
+  });
+
+  it('reply not matching schema falls back to text', () => {
+    const api = new ModelMockApi([
+      'headline1, headline2',
+      '1. headline1\n2. headline2',
+    ]);
+    const predictor = new Predictor(api, '');
+    const res = predictor._predictTexts('prompt', 'headlines');
+    expect(res).toEqual(['headline1', 'headline2']);
+    expect(predictor.status.length).toEqual(1);
+  });
+
+  it('out-of-range descriptions are rewritten until limit of attempts', () => {
+    const long = 'x'.repeat(100);
+    const api = new ModelMockApi([
+      JSON.stringify(['Short but valid description', long, long]),
+      JSON.stringify(['Another valid description', long]),
+      JSON.stringify([long]),
+      JSON.stringify(['Never requested description']),
+    ]);
+    api.configReader.setValue('LLM_Repair_Max_Attempts', '2');
+    const predictor = new Predictor(api, '');
+    const res = predictor.getDescriptions(<any>{
+      keywords: 'shoes',
+      all_headlines: [],
+    });
+    expect(api.prompts.length).toEqual(3);
+    expect(res.split('\n')).toEqual([
+      'Short but valid description',
+      'Another valid description',
+      '',
+      'Descriptions longer than 90:',
+      long,
+    ]);
+  });
+
+  it('repair stops when enough valid texts are collected', () => {
+    const api = new ModelMockApi([
+      JSON.stringify(['description one', 'description two']),
+    ]);
+    const predictor = new Predictor(api, '');
+    const valid = ['description zero', 'description three', 'description four'];
+    const invalid = predictor._repairTexts(<any>{}, valid, ['x'], {
+      stage: 'descriptions',
+      getPrompt: lines => lines.join(),
+      min: 10,
+      max: 90,
+      target: 4,
+      history: [],
+    });
+    expect(valid.length).toEqual(5);
+    expect(invalid).toEqual([]);
+    expect(api.prompts.length).toEqual(1);
+  });
+
+  it('appended output keeps texts with invalid length at the end', () => {
+    const res = appendOutputText(
+      'Headline 1\n\nHeadlines longer than 30:\nA too long headline 1',
+      'Headline 2\n\nHeadlines longer than 30:\nA too long headline 2'
+    );
+    expect(res).toEqual(
+      'Headline 1\nHeadline 2\n\nHeadlines longer than 30:\nA too long headline 1\nA too long headline 2'
+    );
+    expect(appendOutputText('', 'Headline 2')).toEqual('Headline 2');
+  });
+
+  it('landing page content is truncated to fit the prompt', () => {
+    const api = new ModelMockApi([]);
+    const predictor = new Predictor(api, '');
+    const prompt = predictor._getPrompt(
+      'Keywords: {KEYWORDS}\nPage: {LANDING_PAGE}',
+      'shoes',
+      { LANDING_PAGE: 'x'.repeat(100000) },
+      'headlines'
+    );
+    expect(prompt.startsWith('Keywords: shoes\nPage: xxx')).toBeTruthy();
+    expect(estimateTokens(prompt)).toBeLessThanOrEqual(
+      Config.generation.tokenBudgets.headlines
+    );
+  });
+
+  it('keywords are deduplicated and dropped to fit the token budget', () => {
+    const api = new ModelMockApi([]);
+    api.configReader.setValue('LLM_Prompt_Token_Budget', 'headlines: 12');
+    const predictor = new Predictor(api, '');
+    const keywords = [
+      'running shoes',
+      'running shoes online',
+      'trail running shoes',
+      'sneakers',
+      'shoe store',
+      'sport footwear',
+      'buy boots',
+    ];
+    const prompt = predictor._getPrompt(
+      'Keywords:\n{KEYWORDS}',
+      keywords.join('\n'),
+      {},
+      'headlines'
+    );
+    expect(prompt).toEqual('Keywords:\nrunning shoes\nsneakers\nshoe store');
+    expect(predictor.status).toEqual([
+      '4 of 7 keywords dropped to fit the token budget (headlines)',
+    ]);
+  });
+
+  it("model's tokens count is used close to the budget", () => {
+    const api = new ModelMockApi([]);
+    api.countTokens = (prompt: string) => prompt.split('\n').length * 3;
+    api.configReader.setValue('LLM_Prompt_Token_Budget', '10');
+    const predictor = new Predictor(api, '');
+    const prompt = predictor._getPrompt(
+      '{KEYWORDS}',
+      'shoes\nboots\nsneakers\nsandals',
+      {},
+      'headlines'
+    );
+    expect(prompt).toEqual('shoes\nboots\nsneakers');
+  });
+
+  it('customizer keywords are split into requests fitting the budget', () => {
+    const api = new ModelMockApi([
+      JSON.stringify([
+        { keyword: 'shoes', value: 'Buy Shoes' },
+        { keyword: 'boots', value: 'Warm Boots' },
+        { keyword: 'sneakers', value: 'New Sneakers' },
+      ]),
+      JSON.stringify([{ keyword: 'sandals', value: 'Summer Sandals' }]),
+    ]);
+    api.countTokens = (prompt: string) => prompt.split('\n').length * 3;
+    api.configReader.setValue('LLM_Prompt_Token_Budget', '10');
+    api.configReader.setValue('LLM_Prompt_Customizers', '{KEYWORDS}');
+    const predictor = new Predictor(api, '');
+    const res = predictor.getCustomizers([
+      'shoes',
+      'boots',
+      'sneakers',
+      'sandals',
+    ]);
+    expect(api.prompts).toEqual(['shoes\nboots\nsneakers', 'sandals']);
+    expect(Object.keys(res)).toEqual(['shoes', 'boots', 'sneakers', 'sandals']);
+    expect(predictor.status).toEqual([]);
+  });
+
+  it('candidates from several calls are ranked with a judge', () => {
+    const api = new ModelMockApi([
+      JSON.stringify([
+        'Comfortable running shoes for every distance',
+        'Visit our store today',
+        'Great prices on all sneakers',
+      ]),
+      JSON.stringify([
+        'Lightweight running shoes with free delivery',
+        'We have many products',
+        'Find your perfect pair of running shoes',
+      ]),
+      JSON.stringify([9, 1, 5, 9, 0, 8]),
+    ]);
+    api.configReader.setValue('GENERATION_candidates', '2');
+    api.configReader.setValue('GENERATION_candidates_method', 'calls');
+    api.configReader.setValue('GENERATION_judge', 'TRUE');
+    const predictor = new Predictor(api, '');
+    const res = predictor.getDescriptions(<any>{
+      keywords: 'running shoes',
+      all_headlines: [],
+    });
+    expect(api.prompts.length).toEqual(3);
+    expect(api.prompts[2]).toContain('2. Visit our store today');
+    expect(res.split('\n')).toEqual([
+      'Comfortable running shoes for every distance',
+      'Lightweight running shoes with free delivery',
+      'Find your perfect pair of running shoes',
+      'Great prices on all sneakers',
+    ]);
+    expect(predictor.scores.length).toEqual(5);
+    expect(predictor.scores[0]).toEqual('descriptions:');
+    expect(predictor.scores[1]).toContain('judge 0.90');
+  });
+
+  it('candidates are generated in one request if supported', () => {
+    const api = new ModelMockApi([]);
+    const counts: number[] = [];
+    api.predictCandidates = (prompt: string, count: number) => {
+      counts.push(count);
+      return [
+        JSON.stringify(['Running Shoes Sale', 'Buy Running Shoes']),
+        JSON.stringify(['Shop Running Shoes', 'Running Shoes Sale']),
+        'not a json',
+      ];
+    };
+    api.configReader.setValue('GENERATION_candidates', '3');
+    const predictor = new Predictor(api, '');
+    const res = predictor._predictCandidates('prompt', 'headlines', []);
+    expect(counts).toEqual([3]);
+    expect(res).toEqual([
+      'Running Shoes Sale',
+      'Buy Running Shoes',
+      'Shop Running Shoes',
+      'Running Shoes Sale',
+      'not a json',
+    ]);
+    expect(predictor.status.length).toEqual(1);
+  });
+
+  it("customizers are generated with an attribute's prompt", () => {
+    const api = new ModelMockApi([
+      JSON.stringify([
+        { keyword: 'boots', value: '$20' },
+        { keyword: 'shoes', value: '$10' },
+      ]),
+    ]);
+    const predictor = new Predictor(api, '');
+    const res = predictor.getCustomizers(['shoes', 'boots'], <any>{
+      name: 'PriceFrom',
+      type: 'Price',
+      prompt: '{ATTRIBUTE} ({TYPE}, max {MAX}) for:\n{KEYWORDS}',
+      maxLength: 10,
+    });
+    expect(res).toEqual({
+      shoes: { value: '$10', method: 'llm' },
+      boots: { value: '$20', method: 'llm' },
+    });
+    expect(api.prompts[0]).toEqual(
+      'PriceFrom (Price, max 10) for:\nshoes\nboots'
+    );
+  });
+
+  it('missing and invalid customizer values are requested again', () => {
+    const api = new ModelMockApi([
+      JSON.stringify([
+        { keyword: 'Shoes', value: 'Buy Shoes' },
+        { keyword: 'boots', value: 'x'.repeat(40) },
+      ]),
+      JSON.stringify([{ keyword: 'boots', value: 'Warm Boots' }]),
+      JSON.stringify([]),
+      JSON.stringify([]),
+    ]);
+    api.configReader.setValue('LLM_Repair_Max_Attempts', '2');
+    api.configReader.setValue('LLM_Prompt_Customizers', '{KEYWORDS}');
+    const predictor = new Predictor(api, '');
+    const res = predictor.getCustomizers(['shoes', 'boots', 'sandals']);
+    expect(api.prompts).toEqual([
+      'shoes\nboots\nsandals',
+      'boots\nsandals',
+      'sandals',
+    ]);
+    expect(res).toEqual({
+      shoes: { value: 'Buy Shoes', method: 'llm' },
+      boots: { value: 'Warm Boots', method: 'llm-retry' },
+    });
+  });
+
+  it("customizer values are requested in the adgroup's language", () => {
+    const api = new ModelMockApi([
+      JSON.stringify([{ keyword: 'schuhe', value: 'Schuhe kaufen' }]),
+    ]);
+    const predictor = new Predictor(api, '');
+    predictor.promptCustomizersTemplate =
+      'Values in {LANGUAGE} for:\n{KEYWORDS}';
+    predictor.getCustomizers(['schuhe'], undefined, 'German');
+    predictor.getCustomizers(['schuhe']);
+    expect(api.prompts[0]).toEqual('Values in German for:\nschuhe');
+    expect(api.prompts[1]).toEqual(
+      `Values in ${Predictor.DEFAULT_LANGUAGE} for:\nschuhe`
+    );
+  });
+
+  it('texts not in the target language are flagged', () => {
+    const api = new ModelMockApi(['["Running Shoes"]']);
+    const predictor = new Predictor(api, '');
+    const res = predictor.checkLanguage(
+      ['Laufschuhe kaufen', 'Running shoes'],
+      'German'
+    );
+    expect(res).toEqual(['Running shoes']);
+    expect(api.prompts[0]).toContain('written in German');
+  });
 });
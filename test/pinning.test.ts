@@ -0,0 +1,79 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { applyPinningRules, parsePinningRules } from '../src/pinning';
+
+describe('pinning', () => {
+  const rules = parsePinningRules(`CUSTOMER_NAME => H1
+first GENERIC => H2
+/buy|shop/i => H2|H3
+free delivery => D1`);
+
+  it('rules are parsed', () => {
+    expect(rules.map(r => [r.type, r.positions, r.first])).toEqual([
+      ['headline', [1], false],
+      ['headline', [2], true],
+      ['headline', [2, 3], false],
+      ['description', [1], false],
+    ]);
+  });
+
+  it('invalid rules are rejected', () => {
+    expect(() => parsePinningRules('CUSTOMER_NAME H1')).toThrow();
+    expect(() => parsePinningRules('CUSTOMER_NAME => H4')).toThrow();
+    expect(() => parsePinningRules('CUSTOMER_NAME => D3')).toThrow();
+    expect(() => parsePinningRules('CUSTOMER_NAME => H1|D1')).toThrow();
+  });
+
+  it('assets are pinned by rules', () => {
+    const res = applyPinningRules(
+      [
+        { text: 'Acme Running Shoes' },
+        { text: 'Buy Shoes Online' },
+        { text: 'Shop Sneakers' },
+        { text: 'Lightweight Trainers' },
+        { text: 'Buy Now' },
+        { text: 'Best Prices', generic: true },
+        { text: 'Top Brands', generic: true },
+      ],
+      rules,
+      'headline',
+      'Acme'
+    );
+    expect(res.positions).toEqual([1, 2, 3, undefined, 2, 2, undefined]);
+    expect(res.warnings).toEqual([]);
+  });
+
+  it('pins are dropped if there are not enough unpinned assets', () => {
+    const res = applyPinningRules(
+      [{ text: 'Buy Shoes' }, { text: 'Shop Now' }, { text: 'Trainers' }],
+      rules,
+      'headline',
+      'Acme'
+    );
+    // two pinned positions and one unpinned left for H1
+    expect(res.positions).toEqual([2, 3, undefined]);
+    expect(res.warnings).toEqual([]);
+
+    const res2 = applyPinningRules(
+      [{ text: 'Buy Shoes' }, { text: 'Shop Now' }, { text: 'Buy Today' }],
+      rules,
+      'headline',
+      'Acme'
+    );
+    expect(res2.positions).toEqual([2, 3, undefined]);
+    expect(res2.warnings.length).toEqual(1);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { AdStrength, analyzeAdGroup, getAdStrength } from '../src/quality';
+
+const HEADLINES = [
+  'Running Shoes Sale',
+  'Buy Trail Sneakers',
+  'Lightweight Marathon Gear',
+  'Comfortable Walking Boots',
+  'Shop Kids Sandals Online',
+  'Free Delivery Over 50 Dollars',
+  'Easy Returns Within 30 Days',
+  'New Autumn Collection Is In',
+  'Top Brands At Low Prices',
+  'Waterproof Hiking Footwear',
+  'Gym Trainers For Every Workout',
+  'Expert Fitting In Our Stores',
+  'Vegan Leather Casual Loafers',
+  'Orthopedic Insoles Available',
+  'Order Today Wear Tomorrow',
+];
+const DESCRIPTIONS = [
+  'Find running shoes for road and trail with expert advice in every store.',
+  'Free delivery on orders over 50 dollars and easy returns within 30 days.',
+  'Discover the new autumn collection from top brands at affordable prices.',
+  'Comfortable footwear for the whole family, from kids sandals to boots.',
+];
+
+describe('analyzeAdGroup', () => {
+  it('rates complete ads as excellent', () => {
+    const res = analyzeAdGroup(
+      ['running shoes', 'trail sneakers', 'walking boots'],
+      HEADLINES,
+      DESCRIPTIONS,
+      0.8
+    );
+    expect(res.headlines).toEqual(15);
+    expect(res.descriptions).toEqual(4);
+    expect(res.keywordCoverage).toEqual(1);
+    expect(res.duplicates).toEqual(0);
+    expect(res.strength).toEqual(AdStrength.Excellent);
+    expect(res.suggestions).toEqual([]);
+  });
+
+  it('counts invalid texts, duplicates and missing keywords', () => {
+    const res = analyzeAdGroup(
+      ['running shoes', 'hiking boots', 'sneakers', 'sandals', 'loafers', 'x'],
+      [
+        'Running Shoes Sale',
+        'running shoes sale!',
+        'Trail Sneakers',
+        'A'.repeat(31),
+      ],
+      ['Too short', DESCRIPTIONS[0], DESCRIPTIONS[1]],
+      0.8
+    );
+    expect(res.headlines).toEqual(2);
+    expect(res.descriptions).toEqual(2);
+    expect(res.duplicates).toEqual(1);
+    // the 6th keyword is not among the top 5
+    expect(res.missingKeywords).toEqual(['hiking boots', 'sandals', 'loafers']);
+    expect(res.keywordCoverage).toEqual(0.4);
+    expect(res.strength).toEqual(AdStrength.Poor);
+    expect(res.suggestions).toEqual([
+      'add 13 headlines',
+      'add 2 descriptions',
+      'use keywords in headlines: hiking boots, sandals, loafers',
+      'rewrite 1 near-duplicates',
+    ]);
+  });
+});
+
+describe('getAdStrength', () => {
+  it('gives points by guidance', () => {
+    const base = {
+      headlines: 10,
+      descriptions: 3,
+      keywordCoverage: 0.5,
+      missingKeywords: [],
+      lengthUse: 0.5,
+      duplicates: 0,
+    };
+    expect(getAdStrength(base)).toEqual(AdStrength.Average);
+    expect(
+      getAdStrength({ ...base, keywordCoverage: 1, lengthUse: 0.7 })
+    ).toEqual(AdStrength.Good);
+    expect(getAdStrength({ ...base, headlines: 2 })).toEqual(AdStrength.Poor);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  ScoreWeights,
+  formatScore,
+  scoreAssets,
+  selectTopAssets,
+} from '../src/ranking';
+
+const weights: ScoreWeights = {
+  coverage: 1,
+  length: 1,
+  uniqueness: 1,
+  lint: 1,
+  judge: 1,
+};
+
+describe('scoreAssets', () => {
+  it('scores keyword coverage', () => {
+    const [full, partial, none] = scoreAssets(
+      ['Buy Running Shoes', 'Shoes For Everyone', 'Summer Sale Today'],
+      { keywords: ['running shoes', 'sneakers'], maxLength: 30, weights }
+    );
+    expect(full.coverage).toEqual(1);
+    expect(partial.coverage).toEqual(0.5);
+    expect(none.coverage).toEqual(0);
+  });
+
+  it('scores length, uniqueness and lint', () => {
+    const [a, b, c] = scoreAssets(
+      ['Buy Shoes Online', 'Buy Shoes Online Now', 'FREE Delivery'],
+      {
+        keywords: [],
+        maxLength: 20,
+        weights,
+      }
+    );
+    expect(a.length).toEqual(16 / 20);
+    expect(b.length).toEqual(1);
+    expect(a.uniqueness).toBeLessThan(c.uniqueness);
+    expect(c.uniqueness).toEqual(1);
+    expect(a.lint).toEqual(1);
+    expect(c.lint).toEqual(0.5);
+  });
+
+  it('uses judge scores only if given', () => {
+    const [a, b] = scoreAssets(['Running Shoes', 'Summer Sale'], {
+      keywords: ['running shoes'],
+      maxLength: 30,
+      judgeScores: [2, 20],
+      weights,
+    });
+    expect(a.judge).toEqual(0.2);
+    expect(b.judge).toEqual(1);
+    const [noJudge] = scoreAssets(['Running Shoes'], {
+      keywords: ['running shoes'],
+      maxLength: 26,
+      weights,
+    });
+    expect(noJudge.judge).toBeUndefined();
+    // coverage 1, length 0.5, uniqueness 1, lint 1
+    expect(noJudge.total).toEqual(3.5 / 4);
+  });
+});
+
+describe('selectTopAssets', () => {
+  it('selects the best texts first', () => {
+    const scores = scoreAssets(['Sale', 'Buy Running Shoes', 'Running Shoes'], {
+      keywords: ['running shoes'],
+      maxLength: 30,
+      weights,
+    });
+    const top = selectTopAssets(scores, 2).map(score => score.text);
+    expect(top).toEqual(['Buy Running Shoes', 'Running Shoes']);
+  });
+});
+
+describe('formatScore', () => {
+  it('formats all components', () => {
+    const [score] = scoreAssets(['Running Shoes'], {
+      keywords: ['running shoes'],
+      maxLength: 26,
+      judgeScores: [5],
+      weights,
+    });
+    expect(formatScore(score)).toEqual(
+      '"Running Shoes": 0.80 (coverage 1.00, length 0.50, uniqueness 1.00, lint 1.00, judge 0.50)'
+    );
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  findNearDuplicates,
+  getComparisonTokens,
+  getTextSimilarity,
+} from '../src/similarity';
+
+describe('similarity', () => {
+  it('case, punctuation and stopwords are ignored', () => {
+    expect(getComparisonTokens('Shoes for the Whole Family!')).toEqual([
+      'shoes',
+      'whole',
+      'family',
+    ]);
+    expect(getTextSimilarity('Buy Shoes Online', 'buy shoes, online!')).toEqual(
+      1
+    );
+  });
+
+  it('similar texts have high score', () => {
+    expect(
+      getTextSimilarity('Buy Running Shoes', 'Buy Running Shoes Online')
+    ).toBeGreaterThanOrEqual(0.8);
+    expect(
+      getTextSimilarity('Buy Running Shoes', 'Free Delivery Today')
+    ).toEqual(0);
+    // no spaces
+    expect(
+      getTextSimilarity('ランニングシューズ', 'ランニングシューズ通販')
+    ).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('near-duplicates are found among texts and existing ones', () => {
+    const res = findNearDuplicates(
+      [
+        'Buy Running Shoes',
+        'Buy Running Shoes Online',
+        'Free Delivery Today',
+        'Official Store',
+      ],
+      0.8,
+      ['The Official Store']
+    );
+    expect(res.unique).toEqual(['Buy Running Shoes', 'Free Delivery Today']);
+    expect(res.duplicates.map(dup => dup.similarTo)).toEqual([
+      'Buy Running Shoes',
+      'The Official Store',
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { renderTemplate, validateTemplate } from '../src/template';
+
+describe('template', () => {
+  it('macros are substituted, lists are put one per line', () => {
+    expect(
+      renderTemplate('Hi {NAME}, max {MAX}:\n{ITEMS}', {
+        NAME: 'Acme',
+        MAX: 30,
+        ITEMS: ['a', 'b'],
+      })
+    ).toEqual('Hi Acme, max 30:\na\nb');
+  });
+
+  it('formats are applied', () => {
+    const args = { ITEMS: ['a', 'b'] };
+    expect(renderTemplate('{ITEMS|bullets}', args)).toEqual('* a\n* b');
+    expect(renderTemplate('{ITEMS|numbered}', args)).toEqual('1. a\n2. b');
+    expect(renderTemplate('{ITEMS|comma}', args)).toEqual('a, b');
+    expect(renderTemplate('{ITEMS|json}', args)).toEqual('["a","b"]');
+    // multiline strings are treated as lists
+    expect(renderTemplate('{ITEMS|bullets}', { ITEMS: 'a\nb' })).toEqual(
+      '* a\n* b'
+    );
+  });
+
+  it('conditional blocks', () => {
+    const template = '{#if URL}Page: {URL}{#else}No page{/if}.';
+    expect(renderTemplate(template, { URL: 'https://a.com' })).toEqual(
+      'Page: https://a.com.'
+    );
+    expect(renderTemplate(template, { URL: '' })).toEqual('No page.');
+    expect(renderTemplate(template, { URL: undefined })).toEqual('No page.');
+    expect(renderTemplate('{#if L}non-empty{/if}', { L: [] })).toEqual('');
+  });
+
+  it('loops', () => {
+    expect(
+      renderTemplate('{#each ITEMS}{@number}) {.}; {/each}', {
+        ITEMS: ['a', 'b'],
+      })
+    ).toEqual('1) a; 2) b; ');
+  });
+
+  it('braces not looking like macros are kept', () => {
+    expect(
+      renderTemplate('Reply as {"headlines": [...]} for {NAME}', {
+        NAME: 'x',
+      })
+    ).toEqual('Reply as {"headlines": [...]} for x');
+  });
+
+  it('unknown macros throw on render', () => {
+    expect(() => renderTemplate('{NAME} {OTHER}', { NAME: 'x' })).toThrow(
+      /Unknown macro \{OTHER\}/
+    );
+  });
+
+  it('validation reports unknown macros and syntax errors', () => {
+    expect(validateTemplate('{A} {#if B}{A|bullets}{/if}', ['A', 'B'])).toEqual(
+      []
+    );
+    expect(validateTemplate('{A} {C}', ['A', 'B'])).toEqual([
+      'Unknown macro {C}, supported macros: A, B',
+    ]);
+    expect(validateTemplate('{#if A}text', ['A'])[0]).toMatch(/not closed/);
+    expect(validateTemplate('{A}{/each}', ['A'])[0]).toMatch(/Unexpected/);
+    expect(validateTemplate('{A|upper}', ['A'])[0]).toMatch(/Unknown format/);
+    expect(validateTemplate('{.}', ['A'])[0]).toMatch(/inside \{#each\}/);
+  });
+});
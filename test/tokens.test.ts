@@ -0,0 +1,50 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  estimateTokens,
+  parseTokenBudgets,
+  truncateToTokens,
+} from '../src/tokens';
+
+describe('tokens', () => {
+  it('tokens are estimated by characters', () => {
+    expect(estimateTokens('')).toEqual(0);
+    expect(estimateTokens('running shoes')).toEqual(4);
+    // double-width characters are separate tokens
+    expect(estimateTokens('跑步鞋')).toEqual(3);
+  });
+
+  it('text is truncated to a number of tokens', () => {
+    expect(truncateToTokens('x'.repeat(100), 5)).toEqual('x'.repeat(20));
+    expect(truncateToTokens('short', 5)).toEqual('short');
+  });
+
+  it('budgets are parsed', () => {
+    const defaults = { headlines: 100, paths: 50 };
+    expect(parseTokenBudgets('', defaults)).toEqual(defaults);
+    expect(parseTokenBudgets('200', defaults)).toEqual({
+      headlines: 200,
+      paths: 200,
+    });
+    expect(parseTokenBudgets('Paths: 10', defaults)).toEqual({
+      headlines: 100,
+      paths: 10,
+    });
+    expect(() => parseTokenBudgets('titles: 10', defaults)).toThrow(
+      /Invalid token budget "titles: 10"/
+    );
+  });
+});
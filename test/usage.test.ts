@@ -0,0 +1,111 @@
+/**
+ * Copyright 2023-2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+  UsageTracker,
+  estimateCost,
+  getModelPrice,
+  parsePriceTable,
+} from '../src/usage';
+import { GeminiVertexApi } from '../src/vertex-api';
+import { ConfigMockReader } from './mocks';
+
+global.Logger = <any>{ log: () => {} };
+global.ScriptApp = <any>{ getOAuthToken: () => 'token' };
+global.UrlFetchApp = <any>{
+  fetch() {
+    const body = [
+      {
+        candidates: [{ content: { parts: [{ text: '["headline' }] } }],
+        usageMetadata: { promptTokenCount: 100 },
+      },
+      {
+        candidates: [{ content: { parts: [{ text: '1"]' }] } }],
+        usageMetadata: {
+          promptTokenCount: 100,
+          candidatesTokenCount: 7,
+          totalTokenCount: 107,
+        },
+      },
+    ];
+    return {
+      getResponseCode: () => 200,
+      getContentText: () => JSON.stringify(body),
+    };
+  },
+};
+
+describe('usage', () => {
+  it('usage is taken from the last response chunk', () => {
+    const api = new GeminiVertexApi('project', new ConfigMockReader());
+    expect(api.predict('prompt')).toEqual('["headline1"]');
+    expect(api.lastUsage).toEqual({
+      promptTokens: 100,
+      candidatesTokens: 7,
+      totalTokens: 107,
+      cached: false,
+    });
+  });
+
+  it('usage is aggregated by adgroups, stages and models', () => {
+    const tracker = new UsageTracker();
+    const usage = { promptTokens: 100, candidatesTokens: 10, totalTokens: 110 };
+    tracker.adgroupId = '1';
+    tracker.add('headlines', 'gemini', usage);
+    tracker.add('headlines', 'gemini', usage);
+    tracker.add('descriptions', 'gemini', { ...usage, cached: true });
+    tracker.adgroupId = '2';
+    tracker.add('headlines', 'gemini', usage);
+    expect(tracker.records.map(r => [r.adgroupId, r.stage, r.calls])).toEqual([
+      ['1', 'headlines', 2],
+      ['1', 'descriptions', 1],
+      ['2', 'headlines', 1],
+    ]);
+    expect(tracker.records[1].cachedCalls).toEqual(1);
+    expect(tracker.records[1].totalTokens).toEqual(0);
+    expect(tracker.getTotals()).toEqual([
+      {
+        adgroupId: 'TOTAL',
+        stage: '',
+        model: 'gemini',
+        calls: 4,
+        cachedCalls: 1,
+        promptTokens: 300,
+        candidatesTokens: 30,
+        totalTokens: 330,
+      },
+    ]);
+  });
+
+  it('prices are parsed and matched by model name prefix', () => {
+    const prices = parsePriceTable('gemini-1.5-pro-002: 2/8\nmy-model: 1/1', {
+      'gemini-1.5-pro': { input: 1.25, output: 5 },
+    });
+    expect(getModelPrice('gemini-1.5-pro-001', prices)).toEqual({
+      input: 1.25,
+      output: 5,
+    });
+    expect(getModelPrice('gemini-1.5-pro-002', prices)).toEqual({
+      input: 2,
+      output: 8,
+    });
+    expect(getModelPrice('unknown', prices)).toBeUndefined();
+    expect(estimateCost(1e6, 2e6, { input: 1, output: 2 })).toEqual(5);
+    expect(() => parsePriceTable('gemini: cheap', {})).toThrow(
+      /Invalid price "gemini: cheap"/
+    );
+  });
+});